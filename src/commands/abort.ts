@@ -0,0 +1,49 @@
+import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
+import * as output from '../lib/output.js';
+import * as state from '../lib/state.js';
+
+export async function abortCommand(): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  const plan = state.loadRestackState();
+  if (!plan) {
+    output.error('No restack in progress');
+    process.exit(1);
+  }
+
+  if (git.isRebaseInProgress()) {
+    git.abortRebase();
+  }
+
+  git.checkoutBranch(plan.originalBranch);
+
+  // Roll every branch back to where it was before the restack
+  let restoredCount = 0;
+  for (const [branch, sha] of Object.entries(plan.originalShas)) {
+    if (git.getSha(branch) === sha) {
+      continue;
+    }
+    if (branch === plan.originalBranch) {
+      git.resetHard(sha);
+    } else {
+      git.forceBranch(branch, sha);
+    }
+    restoredCount++;
+  }
+
+  for (const [branch, base] of Object.entries(plan.originalBases)) {
+    config.setBranchBase(branch, base);
+  }
+
+  for (const [branch, parent] of Object.entries(plan.originalParents)) {
+    config.setParentBranch(branch, parent);
+  }
+
+  state.clearRestackState();
+  output.success(`Aborted restack, restored ${restoredCount} branch(es)`);
+}
@@ -0,0 +1,30 @@
+import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
+import * as output from '../lib/output.js';
+
+export async function bottomCommand(): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+  const trunk = config.getTrunkBranch();
+
+  if (currentBranch === trunk) {
+    output.error(`Already at trunk (${trunk})`);
+    process.exit(1);
+  }
+
+  // First branch above trunk
+  const targetBranch = config.getStackToTrunk(currentBranch, trunk)[0];
+
+  if (targetBranch === currentBranch) {
+    output.info(`Already at the bottom of the stack ('${currentBranch}')`);
+    return;
+  }
+
+  git.checkoutBranch(targetBranch);
+  output.success(`Switched to branch '${targetBranch}'`);
+}
@@ -0,0 +1,96 @@
+import { spawnSync } from 'node:child_process';
+import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
+import * as output from '../lib/output.js';
+import * as forge from '../lib/forge.js';
+import { ForgeKind } from '../types/index.js';
+
+interface ConfigKey {
+  get: () => string;
+  /** Returns an error message if the value is not valid */
+  validate: (value: string) => string | null;
+  set: (value: string) => string;
+}
+
+const CONFIG_KEYS: Record<string, ConfigKey> = {
+  trunk: {
+    get: () => config.getTrunkBranch(),
+    validate: value => (git.branchExists(value) ? null : `Branch '${value}' does not exist`),
+    set: value => {
+      config.setTrunkBranch(value);
+      return `Set trunk branch to '${value}'`;
+    },
+  },
+  forge: {
+    get: () => forge.getForgeKind(),
+    validate: value => (['github', 'gitlab'].includes(value) ? null : 'Value must be \'github\' or \'gitlab\''),
+    set: value => {
+      config.setForgeKind(value as ForgeKind);
+      return `PRs will be managed on ${value === 'gitlab' ? 'GitLab' : 'GitHub'}`;
+    },
+  },
+  'submit.draft': {
+    get: () => String(config.getSubmitDraftDefault()),
+    validate: value => (['true', 'false'].includes(value) ? null : 'Value must be \'true\' or \'false\''),
+    set: value => {
+      config.setSubmitDraftDefault(value === 'true');
+      return value === 'true' ? 'New PRs will be created as drafts' : 'New PRs will be created ready for review';
+    },
+  },
+};
+
+// Comma-separated defaults applied to new PRs by submit
+for (const name of ['reviewers', 'labels', 'assignees', 'milestone'] as const) {
+  CONFIG_KEYS[`submit.${name}`] = {
+    get: () => {
+      const defaults = config.getSubmitDefaults();
+      return name === 'milestone' ? defaults.milestone ?? '' : defaults[name].join(',');
+    },
+    validate: () => null,
+    set: value => {
+      config.setSubmitDefault(name, value);
+      return `Set default ${name} for new PRs to '${value}'`;
+    },
+  };
+}
+
+/**
+ * Whether fgt config handles a key itself; everything else goes to git config
+ */
+export function isConfigKey(key: string): boolean {
+  // Own keys only, so names like 'constructor' aren't found on the prototype
+  return Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key);
+}
+
+export async function configCommand(key?: string, value?: string): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  // Other keys (user.email, core.editor, ...) are git's own settings
+  if (!key || !isConfigKey(key)) {
+    const args = [key, value].filter((arg): arg is string => arg !== undefined);
+    const result = spawnSync('git', ['config', ...args], { stdio: 'inherit' });
+    if (result.status !== 0) {
+      process.exit(result.status ?? 1);
+    }
+    return;
+  }
+  const configKey = CONFIG_KEYS[key];
+
+  // No value given - show the current value
+  if (value === undefined) {
+    output.log(configKey.get());
+    return;
+  }
+
+  const validationError = configKey.validate(value);
+  if (validationError) {
+    output.error(validationError);
+    process.exit(1);
+  }
+
+  output.success(configKey.set(value));
+}
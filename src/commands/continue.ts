@@ -0,0 +1,43 @@
+import * as git from '../lib/git.js';
+import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
+import * as state from '../lib/state.js';
+
+export async function continueCommand(): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  const plan = state.loadRestackState();
+  if (!plan) {
+    output.error('No restack in progress');
+    process.exit(1);
+  }
+
+  // Finish the rebase that stopped on conflicts (unless the user already did)
+  if (git.isRebaseInProgress()) {
+    try {
+      git.continueRebase();
+    } catch {
+      output.error('Could not continue rebase. Resolve all conflicts and stage the files first');
+      process.exit(1);
+    }
+  }
+
+  // The interrupted branch is done if it now sits on its parent; otherwise it is retried
+  const [branch] = plan.remaining;
+  if (branch && git.isAncestor(plan.parents[branch], branch)) {
+    restack.recordBase(branch, plan.parents[branch]);
+    output.success(`Rebased ${branch} onto ${plan.parents[branch]}`);
+    plan.remaining.shift();
+  }
+
+  if (!restack.runRestackPlan(plan)) {
+    restack.reportRestackConflict(plan);
+    process.exit(1);
+  }
+
+  output.success('Restack complete');
+}
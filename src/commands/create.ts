@@ -5,7 +5,7 @@ import * as branch from '../lib/branch.js';
 import * as output from '../lib/output.js';
 import { handleStaging } from '../lib/staging.js';
 
-export async function createCommand(): Promise<void> {
+export async function createCommand(options: { message?: string; all?: boolean } = {}): Promise<void> {
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
@@ -16,7 +16,7 @@ export async function createCommand(): Promise<void> {
   const status = git.getStatus();
 
   // Handle staging
-  const staging = await handleStaging(status);
+  const staging = await handleStaging(status, { all: options.all });
   if (staging.cancelled) return;
   let hasStagedChanges = staging.hasStagedChanges;
 
@@ -33,8 +33,8 @@ export async function createCommand(): Promise<void> {
     }
   }
 
-  // Prompt for commit message
-  const commitMessage = await prompts.promptCommitMessage();
+  // Use the message passed with -m, otherwise prompt for one
+  const commitMessage = options.message?.trim() || await prompts.promptCommitMessage();
 
   // Derive branch name
   const branchName = branch.commitMessageToBranchName(commitMessage);
@@ -70,6 +70,14 @@ export async function createCommand(): Promise<void> {
     return;
   }
 
+  // Remember the commit the branch is forked from, so restacks only move its own commits
+  let baseSha: string | null = null;
+  try {
+    baseSha = git.getSha('HEAD');
+  } catch {
+    // No commits yet
+  }
+
   // Create the branch
   git.createBranch(branchName);
 
@@ -80,6 +88,9 @@ export async function createCommand(): Promise<void> {
 
   // Mark as tracked
   config.addTrackedBranch(branchName);
+  if (baseSha) {
+    config.setBranchBase(branchName, baseSha);
+  }
 
   // Set parent branch
   const trunk = config.getTrunkBranch();
@@ -0,0 +1,75 @@
+import * as git from '../lib/git.js';
+import * as forge from '../lib/forge.js';
+import * as config from '../lib/config.js';
+import * as prompts from '../lib/prompts.js';
+import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
+import * as state from '../lib/state.js';
+import { deleteBranchCleanly } from '../lib/stack.js';
+
+export async function deleteCommand(branchName?: string, options: { force?: boolean } = {}): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  if (state.loadRestackState()) {
+    output.error('A restack is already in progress. Run \'fgt continue\' or \'fgt abort\' first');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+  const trunk = config.getTrunkBranch();
+  const target = branchName || currentBranch;
+
+  if (target === trunk) {
+    output.error(`Cannot delete trunk branch (${trunk})`);
+    process.exit(1);
+  }
+
+  if (!git.branchExists(target)) {
+    output.error(`Branch '${target}' does not exist`);
+    process.exit(1);
+  }
+
+  if (!options.force) {
+    const confirmed = await prompts.promptConfirmation(`Delete branch '${target}'?`, false);
+    if (!confirmed) {
+      output.info('Cancelled');
+      return;
+    }
+  }
+
+  const parent = config.getParentBranch(target) || trunk;
+  const children = config.getChildren(target);
+  const targetSha = git.getSha(target);
+  const provider = forge.getForge();
+  const pr = await provider.isAuthenticated() ? await provider.getPRForBranch(target) : null;
+
+  // Switch to the parent rather than trunk when deleting the current branch
+  if (target === currentBranch) {
+    git.checkoutBranch(parent);
+  }
+  const returnBranch = git.getCurrentBranch();
+
+  await deleteBranchCleanly(target, returnBranch, trunk);
+
+  if (children.length > 0) {
+    const shouldRestack = await prompts.promptConfirmation(
+      `Restack ${children.length} adopted branch(es) onto ${parent}?`,
+      true,
+    );
+    if (shouldRestack) {
+      restack.restackDescendantsOf(children, { [parent]: targetSha }, returnBranch);
+    }
+  }
+
+  if (pr && pr.state === 'OPEN') {
+    const shouldClose = await prompts.promptConfirmation(`Close PR #${pr.number}?`, false);
+    if (shouldClose) {
+      await provider.closePR(pr.number);
+      output.success(`Closed PR #${pr.number}`);
+    }
+  }
+}
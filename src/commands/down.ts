@@ -1,14 +1,21 @@
 import * as git from '../lib/git.js';
 import * as config from '../lib/config.js';
 import * as output from '../lib/output.js';
+import { parseStepCount } from '../lib/navigation.js';
 
-export async function downCommand(): Promise<void> {
+export async function downCommand(steps?: string): Promise<void> {
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
     process.exit(1);
   }
 
+  const count = parseStepCount(steps);
+  if (count === null) {
+    output.error(`Invalid number of steps '${steps}'`);
+    process.exit(1);
+  }
+
   const currentBranch = git.getCurrentBranch();
   const trunk = config.getTrunkBranch();
 
@@ -26,13 +33,17 @@ export async function downCommand(): Promise<void> {
     process.exit(1);
   }
 
-  // If parent is trunk, show different message
-  if (parentBranch === trunk) {
-    output.error(`Already at trunk (${trunk})`);
-    process.exit(1);
+  // Walk further down, stopping at trunk
+  let targetBranch = parentBranch;
+  for (let moved = 1; moved < count && targetBranch !== trunk; moved++) {
+    const parent = config.getParentBranch(targetBranch);
+    if (!parent) {
+      break;
+    }
+    targetBranch = parent;
   }
 
-  // Checkout parent branch
-  git.checkoutBranch(parentBranch);
-  output.success(`Switched to branch '${parentBranch}'`);
+  // Checkout target branch
+  git.checkoutBranch(targetBranch);
+  output.success(`Switched to branch '${targetBranch}'`);
 }
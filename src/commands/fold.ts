@@ -0,0 +1,67 @@
+import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
+import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
+import * as state from '../lib/state.js';
+import { adoptChildrenToGrandparent } from '../lib/stack.js';
+
+export async function foldCommand(options: { keep?: boolean } = {}): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  if (state.loadRestackState()) {
+    output.error('A restack is already in progress. Run \'fgt continue\' or \'fgt abort\' first');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+  const trunk = config.getTrunkBranch();
+
+  if (currentBranch === trunk) {
+    output.error(`Cannot fold trunk branch (${trunk})`);
+    process.exit(1);
+  }
+
+  const parent = config.getParentBranch(currentBranch) || trunk;
+  if (parent === trunk) {
+    output.error(`Cannot fold '${currentBranch}' into trunk (${trunk})`);
+    process.exit(1);
+  }
+
+  if (git.getStatus().hasChanges) {
+    output.error('Commit or stash your changes before folding');
+    process.exit(1);
+  }
+
+  if (!git.isAncestor(parent, currentBranch)) {
+    output.error(`'${currentBranch}' is behind ${parent}. Run 'fgt restack' first`);
+    process.exit(1);
+  }
+
+  const branchSha = git.getSha(currentBranch);
+  const message = git.getFirstCommitMessage(currentBranch, parent);
+
+  // Bring the branch's commits into the parent
+  git.checkoutBranch(parent);
+  if (options.keep) {
+    git.mergeFastForward(currentBranch);
+  } else {
+    git.mergeSquash(currentBranch);
+    if (git.getStatus().hasStagedChanges) {
+      git.commit(message);
+    }
+  }
+  output.success(`Folded ${currentBranch} into ${parent}${options.keep ? '' : ' (squashed)'}`);
+
+  // Children now stack on the parent
+  const children = config.getChildren(currentBranch);
+  adoptChildrenToGrandparent(currentBranch, trunk);
+  git.forceDeleteBranch(currentBranch);
+  config.removeTrackedBranch(currentBranch);
+  output.success(`Deleted ${currentBranch}`);
+
+  restack.restackDescendantsOf(children, { [parent]: branchSha }, parent);
+}
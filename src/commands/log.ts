@@ -1,17 +1,21 @@
 import * as git from '../lib/git.js';
 import * as config from '../lib/config.js';
-import * as gh from '../lib/gh.js';
+import * as forge from '../lib/forge.js';
 import * as output from '../lib/output.js';
 import chalk from 'chalk';
 
 interface StackNode {
   name: string;
-  children: StackNode[];
-  pr?: { number: number; state: string; merged: boolean };
   isCurrent: boolean;
+  pr: { number: number; state: string; merged: boolean } | null;
+  children: StackNode[];
 }
 
-export async function logCommand(): Promise<void> {
+export async function logCommand(options: { json?: boolean } = {}): Promise<void> {
+  if (options.json) {
+    output.setJsonMode(true);
+  }
+
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
@@ -23,27 +27,33 @@ export async function logCommand(): Promise<void> {
   const trackedBranches = config.getTrackedBranches();
 
   // Build tree structure
-  const tree = buildStackTree(trackedBranches, currentBranch, trunk);
+  const tree = await buildStackTree(trackedBranches, currentBranch, trunk);
+
+  if (options.json) {
+    output.json({ trunk, currentBranch, tree });
+    return;
+  }
 
   // Display the tree
   output.log(''); // Empty line
-  displayTree(tree, '', true, currentBranch);
+  displayTree(tree, '', true, currentBranch, trunk);
   output.log(''); // Empty line
 }
 
 /**
  * Build a tree structure of branches
  */
-function buildStackTree(
+async function buildStackTree(
   trackedBranches: string[],
   currentBranch: string,
   trunk: string
-): StackNode {
+): Promise<StackNode> {
   // Create root node (trunk)
   const root: StackNode = {
     name: trunk,
-    children: [],
     isCurrent: currentBranch === trunk,
+    pr: null,
+    children: [],
   };
 
   // Map of branch name to node
@@ -55,28 +65,28 @@ function buildStackTree(
     if (branch !== trunk) {
       const node: StackNode = {
         name: branch,
-        children: [],
         isCurrent: branch === currentBranch,
+        pr: null,
+        children: [],
       };
-
-      // Get PR info if available
-      try {
-        const pr = gh.getPRForBranch(branch);
-        if (pr) {
-          node.pr = {
-            number: pr.number,
-            state: pr.state,
-            merged: pr.merged,
-          };
-        }
-      } catch {
-        // Ignore if gh fails
-      }
-
       nodeMap.set(branch, node);
     }
   }
 
+  // Get PR info if available, for all branches in one request
+  try {
+    const prs = await forge.getForge().getPRsForBranches(trackedBranches.filter(branch => branch !== trunk));
+    for (const [branch, pr] of prs) {
+      nodeMap.get(branch)!.pr = {
+        number: pr.number,
+        state: pr.state,
+        merged: pr.merged,
+      };
+    }
+  } catch {
+    // Ignore if the forge can't be reached
+  }
+
   // Build parent-child relationships
   for (const branch of trackedBranches) {
     if (branch === trunk) continue;
@@ -100,7 +110,8 @@ function displayTree(
   node: StackNode,
   prefix: string,
   isLast: boolean,
-  currentBranch: string
+  currentBranch: string,
+  trunk: string
 ): void {
   // Determine line characters
   const connector = isLast ? '└─>' : '├─>';
@@ -113,9 +124,11 @@ function displayTree(
   if (node.pr) {
     const prStatus = node.pr.merged
       ? chalk.gray(`#${node.pr.number} merged`)
-      : chalk.green(`#${node.pr.number} ✓`);
+      : node.pr.state === 'CLOSED'
+        ? chalk.gray(`#${node.pr.number} closed`)
+        : chalk.green(`#${node.pr.number} ✓`);
     branchDisplay += ` (${prStatus})`;
-  } else if (node.name !== config.getTrunkBranch()) {
+  } else if (node.name !== trunk) {
     branchDisplay += chalk.gray(' (no PR)');
   }
 
@@ -136,6 +149,6 @@ function displayTree(
   const childPrefix = prefix + (prefix === '' ? '' : continuer);
   node.children.forEach((child, index) => {
     const isLastChild = index === node.children.length - 1;
-    displayTree(child, childPrefix, isLastChild, currentBranch);
+    displayTree(child, childPrefix, isLastChild, currentBranch, trunk);
   });
 }
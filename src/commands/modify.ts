@@ -1,8 +1,10 @@
 import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
 import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
 import { handleStaging } from '../lib/staging.js';
 
-export async function modifyCommand(): Promise<void> {
+export async function modifyCommand(options: { restack?: boolean; all?: boolean } = {}): Promise<void> {
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
@@ -27,7 +29,7 @@ export async function modifyCommand(): Promise<void> {
   }
 
   // Handle staging
-  const staging = await handleStaging(status);
+  const staging = await handleStaging(status, { all: options.all });
   if (staging.cancelled) return;
   const hasStagedChanges = staging.hasStagedChanges;
 
@@ -42,8 +44,14 @@ export async function modifyCommand(): Promise<void> {
   }
 
   // Amend the commit
+  const preAmendSha = git.getSha('HEAD');
   git.amendCommit();
 
   const commitMessage = git.getLastCommitMessage();
   output.success(`Amended commit: ${commitMessage}`);
+
+  // Move all descendants onto the amended commit
+  if (options.restack !== false) {
+    restack.restackDescendantsOf(config.getChildren(currentBranch), { [currentBranch]: preAmendSha }, currentBranch);
+  }
 }
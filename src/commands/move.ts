@@ -0,0 +1,75 @@
+import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
+import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
+import * as state from '../lib/state.js';
+import { showBranchPicker } from '../lib/branch-picker.js';
+
+export async function moveCommand(options: { onto?: string } = {}): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  if (state.loadRestackState()) {
+    output.error('A restack is already in progress. Run \'fgt continue\' or \'fgt abort\' first');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+  const trunk = config.getTrunkBranch();
+
+  if (currentBranch === trunk) {
+    output.error(`Cannot move trunk branch (${trunk})`);
+    process.exit(1);
+  }
+
+  let target: string;
+  if (options.onto) {
+    if (!git.branchExists(options.onto)) {
+      output.error(`Branch '${options.onto}' does not exist`);
+      process.exit(1);
+    }
+    target = options.onto;
+  } else {
+    const selected = await showBranchPicker(`Move ${currentBranch} onto:`);
+    if (!selected) {
+      output.error('No branches available');
+      process.exit(1);
+    }
+    target = selected;
+  }
+
+  const descendants = config.getDescendants(currentBranch);
+  if (target === currentBranch || descendants.includes(target)) {
+    output.error(`Cannot move '${currentBranch}' onto itself or one of its descendants`);
+    process.exit(1);
+  }
+
+  const oldParent = config.getParentBranch(currentBranch) || trunk;
+  if (oldParent === target) {
+    output.info(`${currentBranch} is already stacked on ${target}`);
+    return;
+  }
+
+  // Only the branch's own commits should move, so pin its fork point first
+  restack.ensureBase(currentBranch, oldParent);
+
+  const plan = restack.createRestackPlan(currentBranch, [
+    { branch: currentBranch, parent: target },
+    ...descendants.map(branch => ({ branch, parent: config.getParentBranch(branch)! })),
+  ]);
+  plan.originalParents[currentBranch] = oldParent;
+
+  config.setParentBranch(currentBranch, target);
+  config.addTrackedBranch(currentBranch);
+  output.info(`Moving ${currentBranch}: ${oldParent} → ${target}`);
+
+  if (!restack.runRestackPlan(plan)) {
+    restack.reportRestackConflict(plan);
+    process.exit(1);
+  }
+
+  output.success(`Moved ${currentBranch} and ${descendants.length} descendant(s) onto ${target}`);
+}
@@ -0,0 +1,75 @@
+import * as git from '../lib/git.js';
+import * as forge from '../lib/forge.js';
+import * as config from '../lib/config.js';
+import * as prompts from '../lib/prompts.js';
+import * as output from '../lib/output.js';
+import * as state from '../lib/state.js';
+
+export async function renameCommand(newName: string): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  if (state.loadRestackState()) {
+    output.error('A restack is already in progress. Run \'fgt continue\' or \'fgt abort\' first');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+  const trunk = config.getTrunkBranch();
+
+  if (currentBranch === trunk) {
+    output.error(`Cannot rename trunk branch (${trunk})`);
+    process.exit(1);
+  }
+
+  if (git.branchExists(newName)) {
+    output.error(`Branch '${newName}' already exists`);
+    process.exit(1);
+  }
+
+  const hadRemote = git.hasRemote(currentBranch);
+
+  git.renameBranch(currentBranch, newName);
+  config.renameBranchMetadata(currentBranch, newName);
+  output.success(`Renamed '${currentBranch}' to '${newName}'`);
+
+  if (!hadRemote) {
+    return;
+  }
+
+  const shouldPush = await prompts.promptConfirmation(
+    `Push '${newName}' to origin and retarget child PRs?`,
+    true,
+  );
+  if (!shouldPush) {
+    // branch -m kept the upstream origin/<old name>; without it sync won't mistake
+    // the missing origin/<new name> for a remote branch deleted after a merge
+    git.unsetUpstream(newName);
+    return;
+  }
+
+  const pushSpin = output.spinner(`Pushing ${newName}...`);
+  git.push(newName, true);
+  pushSpin.succeed(`Pushed ${newName}`);
+
+  const provider = forge.getForge();
+  if (await provider.isAuthenticated()) {
+    const children = config.getChildren(newName);
+    const prs = await Promise.all(children.map(child => provider.getPRForBranch(child)));
+    for (const [i, pr] of prs.entries()) {
+      if (pr && pr.state === 'OPEN') {
+        await provider.updatePRBase(pr.number, newName);
+        output.success(`Retargeted PR #${pr.number} (${children[i]}) to ${newName}`);
+      }
+    }
+  }
+
+  if (config.getPRNumber(newName)) {
+    output.warning(
+      `The existing PR stays on the old remote branch '${currentBranch}'. Run 'fgt submit' to open one for '${newName}'`
+    );
+  }
+}
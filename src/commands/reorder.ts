@@ -0,0 +1,90 @@
+import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
+import * as prompts from '../lib/prompts.js';
+import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
+import * as state from '../lib/state.js';
+
+const REORDER_HELP = `
+# Reorder the branches of this stack, one branch per line.
+# The first line sits directly on the stack's base, each following line on the one above it.
+# Lines starting with '#' are ignored. Every branch must appear exactly once.
+`;
+
+export async function reorderCommand(): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  if (state.loadRestackState()) {
+    output.error('A restack is already in progress. Run \'fgt continue\' or \'fgt abort\' first');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+  const trunk = config.getTrunkBranch();
+  const stack = config.getStackToTrunk(currentBranch, trunk);
+
+  if (stack.length < 2) {
+    output.error('Stack has fewer than two branches, nothing to reorder');
+    process.exit(1);
+  }
+
+  const edited = await prompts.promptEditor(
+    'Reorder stack:',
+    stack.join('\n') + '\n' + REORDER_HELP,
+  );
+  const newOrder = edited
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+  const isPermutation =
+    newOrder.length === stack.length &&
+    new Set(newOrder).size === stack.length &&
+    newOrder.every(branch => stack.includes(branch));
+  if (!isPermutation) {
+    output.error('The new order must list every branch of the stack exactly once');
+    process.exit(1);
+  }
+
+  if (newOrder.every((branch, i) => branch === stack[i])) {
+    output.info('Stack order unchanged');
+    return;
+  }
+
+  // Rewrite parents: the first branch takes the stack's base, each next one sits on the previous
+  const stackBase = config.getParentBranch(stack[0]) || trunk;
+  const newParents = new Map(newOrder.map((branch, i) => [branch, i === 0 ? stackBase : newOrder[i - 1]]));
+
+  // Pin every branch's fork point before parents change, so only its own commits move
+  for (const branch of stack) {
+    restack.ensureBase(branch, config.getParentBranch(branch) || trunk);
+  }
+
+  // Side branches hanging off the stack follow their (moved) parents
+  const sideBranches = stack.flatMap(branch =>
+    config.getDescendants(branch).filter(descendant => !stack.includes(descendant))
+  );
+  const plan = restack.createRestackPlan(currentBranch, [
+    ...newOrder.map(branch => ({ branch, parent: newParents.get(branch)! })),
+    ...[...new Set(sideBranches)].map(branch => ({ branch, parent: config.getParentBranch(branch)! })),
+  ]);
+
+  for (const branch of stack) {
+    const oldParent = config.getParentBranch(branch) || trunk;
+    if (oldParent !== newParents.get(branch)) {
+      plan.originalParents[branch] = oldParent;
+      config.setParentBranch(branch, newParents.get(branch)!);
+    }
+  }
+
+  if (!restack.runRestackPlan(plan)) {
+    restack.reportRestackConflict(plan);
+    process.exit(1);
+  }
+
+  output.success(`Reordered stack: ${[stackBase, ...newOrder].join(' → ')}`);
+}
@@ -2,18 +2,38 @@ import * as git from '../lib/git.js';
 import * as config from '../lib/config.js';
 import * as prompts from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
+import * as state from '../lib/state.js';
 import { showBranchPicker } from '../lib/branch-picker.js';
 
-export async function restackCommand(newParent?: string): Promise<void> {
+export async function restackCommand(newParent?: string, options: { all?: boolean } = {}): Promise<void> {
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
     process.exit(1);
   }
 
+  if (state.loadRestackState()) {
+    output.error('A restack is already in progress. Run \'fgt continue\' or \'fgt abort\' first');
+    process.exit(1);
+  }
+
   const currentBranch = git.getCurrentBranch();
   const trunk = config.getTrunkBranch();
 
+  if (options.all) {
+    if (newParent) {
+      output.error('Cannot pass a parent branch together with --all');
+      process.exit(1);
+    }
+    if (git.hasTrackedChanges()) {
+      output.error('Commit or stash your changes before restacking');
+      process.exit(1);
+    }
+    restackAll(currentBranch, trunk);
+    return;
+  }
+
   // Can't restack trunk
   if (currentBranch === trunk) {
     output.error(`Cannot restack trunk branch (${trunk})`);
@@ -77,79 +97,85 @@ export async function restackCommand(newParent?: string): Promise<void> {
     }
   }
 
-  // Rebase current branch onto parent
-  const rebaseSpin = output.spinner(`Rebasing ${currentBranch} onto ${parentBranch}...`);
-  try {
-    git.rebase(parentBranch);
-    rebaseSpin.succeed(`Rebased ${currentBranch} onto ${parentBranch}`);
-  } catch (error: any) {
-    rebaseSpin.fail('Rebase failed');
-    output.error('Rebase conflicts. Resolve manually and run \'git rebase --continue\'');
-    process.exit(1);
-  }
+  // Plan the restack: current branch first, then (optionally) all descendants
+  const steps = [{ branch: currentBranch, parent: parentBranch }];
+  const descendants = config.getDescendants(currentBranch);
 
-  // Check if current branch has children
-  const children = config.getChildren(currentBranch);
-
-  if (children.length > 0) {
-    // Ask if user wants to rebase children too
+  if (descendants.length > 0) {
     const shouldRestackChildren = await prompts.promptConfirmation(
       'Rebase children branches too?',
       true
     );
 
     if (shouldRestackChildren) {
-      let restackedCount = 0;
-      const originalBranch = currentBranch;
-
-      for (const child of children) {
-        try {
-          // Checkout child and rebase
-          git.checkoutBranch(child);
-          const childRebaseSpin = output.spinner(`Rebasing ${child} onto ${originalBranch}...`);
-
-          git.rebase(originalBranch);
-          childRebaseSpin.succeed(`Rebased ${child} onto ${originalBranch}`);
-          restackedCount++;
-
-          // Recursively restack grandchildren
-          await restackChildrenRecursive(child);
-        } catch (error: any) {
-          output.error(`Failed to rebase ${child}: ${error.message}`);
-          output.warning('Stopping restack. Fix conflicts and run restack again.');
-          process.exit(1);
-        }
+      for (const descendant of descendants) {
+        steps.push({ branch: descendant, parent: config.getParentBranch(descendant)! });
       }
+    }
+  }
 
-      // Return to original branch
-      git.checkoutBranch(originalBranch);
+  const plan = restack.createRestackPlan(currentBranch, steps);
+  if (oldParent && oldParent !== parentBranch) {
+    plan.originalParents[currentBranch] = oldParent;
+  }
 
-      if (restackedCount > 0) {
-        output.success(`Restacked ${restackedCount + 1} branch(es)`);
-      }
-    }
+  if (!restack.runRestackPlan(plan)) {
+    restack.reportRestackConflict(plan);
+    process.exit(1);
+  }
+
+  if (steps.length > 1) {
+    output.success(`Restacked ${steps.length} branch(es)`);
   }
 }
 
 /**
- * Recursively restack all descendants of a branch
+ * Rebase every tracked branch onto its parent, parents before children.
+ * Branches that conflict are aborted and skipped along with their descendants.
  */
-async function restackChildrenRecursive(branchName: string): Promise<void> {
-  const children = config.getChildren(branchName);
+function restackAll(currentBranch: string, trunk: string): void {
+  const order = getRestackOrder(trunk);
 
-  for (const child of children) {
-    git.checkoutBranch(child);
-    const spin = output.spinner(`Rebasing ${child} onto ${branchName}...`);
+  if (order.length === 0) {
+    output.info('No tracked branches to restack');
+    return;
+  }
 
-    try {
-      git.rebase(branchName);
-      spin.succeed(`Rebased ${child} onto ${branchName}`);
+  const results = restack.restackBranches(order);
 
-      // Recursively restack this child's children
-      await restackChildrenRecursive(child);
-    } catch (error: any) {
-      spin.fail(`Failed to rebase ${child}`);
-      throw error;
-    }
+  // Return to original branch
+  if (git.branchExists(currentBranch)) {
+    git.checkoutBranch(currentBranch);
   }
+
+  restack.printRestackResults(results);
+}
+
+/**
+ * Order tracked branches so that every parent comes before its children.
+ */
+function getRestackOrder(trunk: string): Array<{ branch: string; parent: string }> {
+  const tracked = config.getTrackedBranches().filter(b => b !== trunk && git.branchExists(b));
+  const parents = new Map<string, string>();
+  for (const branch of tracked) {
+    parents.set(branch, config.getParentBranch(branch) || trunk);
+  }
+
+  const order: Array<{ branch: string; parent: string }> = [];
+  const visit = (parent: string) => {
+    for (const branch of tracked) {
+      if (parents.get(branch) === parent) {
+        order.push({ branch, parent });
+        visit(branch);
+      }
+    }
+  };
+
+  // Roots are branches whose parent is trunk or not a tracked branch
+  const roots = new Set(
+    tracked.map(b => parents.get(b)!).filter(p => !parents.has(p))
+  );
+  roots.forEach(visit);
+
+  return order;
 }
@@ -0,0 +1,131 @@
+import * as git from '../lib/git.js';
+import * as config from '../lib/config.js';
+import * as prompts from '../lib/prompts.js';
+import * as branch from '../lib/branch.js';
+import * as output from '../lib/output.js';
+import * as restack from '../lib/restack.js';
+import * as state from '../lib/state.js';
+import { GitStatusFile } from '../types/index.js';
+
+interface SplitPart {
+  branchName: string;
+  message: string;
+  files: GitStatusFile[];
+}
+
+export async function splitCommand(): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  if (state.loadRestackState()) {
+    output.error('A restack is already in progress. Run \'fgt continue\' or \'fgt abort\' first');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+  const trunk = config.getTrunkBranch();
+
+  if (currentBranch === trunk) {
+    output.error(`Cannot split trunk branch (${trunk})`);
+    process.exit(1);
+  }
+
+  if (git.getStatus().hasChanges) {
+    output.error('Commit or stash your changes before splitting');
+    process.exit(1);
+  }
+
+  const parent = config.getParentBranch(currentBranch) || trunk;
+  restack.ensureBase(currentBranch, parent);
+  const base = config.getBranchBase(currentBranch) ?? git.getMergeBase(parent, currentBranch);
+
+  const files = git.getChangedFiles(base, currentBranch);
+  if (files.length < 2) {
+    output.error(`'${currentBranch}' needs changes in at least two files to be split`);
+    process.exit(1);
+  }
+
+  const parts = await promptSplitParts(files);
+  if (!parts) {
+    output.info('Cancelled');
+    return;
+  }
+
+  // Build the chain from the branch's fork point, one commit per part
+  const originalSha = git.getSha(currentBranch);
+  let previous = base;
+  let previousBranch = parent;
+  for (const part of parts) {
+    git.createBranchAt(part.branchName, previous);
+    git.checkoutFilesFrom(originalSha, part.files);
+    git.commit(part.message);
+
+    config.addTrackedBranch(part.branchName);
+    config.setParentBranch(part.branchName, previousBranch);
+    config.setBranchBase(part.branchName, previous);
+
+    previous = git.getSha(part.branchName);
+    previousBranch = part.branchName;
+  }
+  output.success(`Split '${currentBranch}' into ${parts.map(p => p.branchName).join(' → ')}`);
+
+  // The last part has the same tree as the original branch, so children can move onto it
+  const lastBranch = previousBranch;
+  const children = config.getChildren(currentBranch);
+  children.forEach(child => config.setParentBranch(child, lastBranch));
+
+  restack.restackDescendantsOf(children, { [lastBranch]: originalSha }, lastBranch);
+
+  const shouldDelete = await prompts.promptConfirmation(
+    `Delete the original branch '${currentBranch}'?`,
+    true,
+  );
+  if (shouldDelete) {
+    git.forceDeleteBranch(currentBranch);
+    config.removeTrackedBranch(currentBranch);
+    output.success(`Deleted branch '${currentBranch}'`);
+  } else {
+    config.removeTrackedBranch(currentBranch);
+    output.info(`Kept '${currentBranch}' but stopped tracking it`);
+  }
+}
+
+/**
+ * Ask which files go into each new branch until every file is assigned.
+ * Returns null if the user cancels.
+ */
+async function promptSplitParts(files: GitStatusFile[]): Promise<SplitPart[] | null> {
+  const parts: SplitPart[] = [];
+  const usedNames = new Set<string>();
+  let remaining = files;
+
+  while (remaining.length > 0) {
+    const selected = await prompts.promptFileSelection(
+      remaining,
+      `Select files for branch ${parts.length + 1} of the split:`,
+    );
+    if (selected.length === 0) {
+      return null;
+    }
+
+    const message = await prompts.promptCommitMessage();
+    const branchName = branch.commitMessageToBranchName(message);
+    if (git.branchExists(branchName) || usedNames.has(branchName)) {
+      output.error(`Branch '${branchName}' already exists`);
+      process.exit(1);
+    }
+    usedNames.add(branchName);
+
+    parts.push({
+      branchName,
+      message,
+      files: remaining.filter(f => selected.includes(f.path)),
+    });
+    remaining = remaining.filter(f => !selected.includes(f.path));
+  }
+
+  return parts;
+}
@@ -1,21 +1,49 @@
 import * as git from '../lib/git.js';
 import * as config from '../lib/config.js';
-import * as gh from '../lib/gh.js';
+import * as forge from '../lib/forge.js';
 import * as branch from '../lib/branch.js';
 import * as prompts from '../lib/prompts.js';
 import * as output from '../lib/output.js';
 import * as claude from '../lib/claude.js';
+import * as prStack from '../lib/pr-stack.js';
+import * as codeowners from '../lib/codeowners.js';
+import { PRDetails, PRMetadata, PRRetarget } from '../types/index.js';
 
-export async function submitCommand(options: { current?: boolean } = {}): Promise<void> {
+interface SubmitOptions {
+  current?: boolean;
+  draft?: boolean;
+  ready?: boolean;
+  /** Comma-separated lists */
+  reviewer?: string;
+  label?: string;
+  assignee?: string;
+  milestone?: string;
+  codeowners?: boolean;
+}
+
+interface PROptions {
+  draft: boolean;
+  ready: boolean;
+  /** Metadata given on the command line, also applied to existing PRs */
+  requested: PRMetadata;
+  codeowners: boolean;
+}
+
+export async function submitCommand(options: SubmitOptions = {}): Promise<void> {
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
     process.exit(1);
   }
 
-  // Check if gh is authenticated
-  if (!gh.isGhAuthenticated()) {
-    output.error('GitHub CLI not authenticated. Run "gh auth login" first.');
+  // Check if the forge (gh or GitLab) is authenticated
+  if (!(await forge.getForge().isAuthenticated())) {
+    output.error(forge.getForge().authError);
+    process.exit(1);
+  }
+
+  if (options.draft && options.ready) {
+    output.error('Use either --draft or --ready, not both');
     process.exit(1);
   }
 
@@ -27,6 +55,9 @@ export async function submitCommand(options: { current?: boolean } = {}): Promis
     process.exit(1);
   }
 
+  // New PRs are drafts with --draft, or by default if configured (unless --ready)
+  const draft = options.draft ?? (!options.ready && config.getSubmitDraftDefault());
+
   // Determine which branches to submit
   let branchesToSubmit: string[];
 
@@ -57,9 +88,86 @@ export async function submitCommand(options: { current?: boolean } = {}): Promis
 
   output.separator();
 
-  // Create/update PRs for each branch
+  const prOptions: PROptions = {
+    draft,
+    ready: !!options.ready,
+    requested: {
+      reviewers: config.parseList(options.reviewer),
+      labels: config.parseList(options.label),
+      assignees: config.parseList(options.assignee),
+      milestone: options.milestone,
+    },
+    codeowners: !!options.codeowners,
+  };
+
+  // Look up existing PRs for the whole stack at once, then create/update PRs for each branch
+  const existingPRs = await getOpenPRs(branchesToSubmit);
+  const retargeted: PRRetarget[] = [];
   for (const branchName of branchesToSubmit) {
-    await createOrUpdatePR(branchName, trunk);
+    retargeted.push(...await createOrUpdatePR(branchName, existingPRs.get(branchName), trunk, prOptions));
+  }
+  prStack.printRetargetSummary(retargeted, forge.getForge().referencePrefix);
+
+  // Show reviewers where each PR sits in the stack
+  await updateStackSections(config.getStackToTrunk(currentBranch, trunk), branchesToSubmit, trunk);
+}
+
+/**
+ * Fetch the open PR of each branch in a single request
+ */
+async function getOpenPRs(branches: string[]): Promise<Map<string, PRDetails>> {
+  try {
+    const prs = await forge.getForge().getPRsForBranches(branches);
+    return new Map([...prs].filter(([, pr]) => pr.state === 'OPEN'));
+  } catch (error: any) {
+    output.warning(`Could not fetch existing PRs: ${error.message}`);
+    return new Map();
+  }
+}
+
+/**
+ * Insert or refresh the "Stack" section in the description of each submitted PR
+ */
+async function updateStackSections(stack: string[], branchesToUpdate: string[], trunk: string): Promise<void> {
+  if (stack.length < 2) {
+    return;
+  }
+
+  const provider = forge.getForge();
+  const entries = stack.map(b => ({ branch: b, prNumber: config.getPRNumber(b) }));
+  let updated = 0;
+
+  // Fetch the current descriptions in one request
+  let prs: Map<string, PRDetails>;
+  try {
+    prs = await provider.getPRsForBranches(branchesToUpdate.filter(b => config.getPRNumber(b)));
+  } catch (error: any) {
+    output.warning(`Could not update the stack section of PR descriptions: ${error.message}`);
+    return;
+  }
+
+  await Promise.all(branchesToUpdate.map(async branchName => {
+    const prNumber = config.getPRNumber(branchName);
+    const pr = prs.get(branchName);
+    if (!prNumber || pr?.number !== prNumber) {
+      return;
+    }
+
+    try {
+      const body = pr.body;
+      const section = prStack.formatStackSection(entries, branchName, trunk, provider.referencePrefix);
+      const newBody = prStack.upsertStackSection(body, section);
+      if (newBody !== body) {
+        await provider.updatePRBody(prNumber, newBody);
+        updated++;
+      }
+    } catch (error: any) {
+      output.warning(`Could not update the stack section of PR #${prNumber}: ${error.message}`);
+    }
+  }));
+
+  if (updated > 0) {
+    output.success(`Updated the stack section in ${updated} PR description(s)`);
   }
 }
 
@@ -93,14 +201,37 @@ async function pushBranch(branchName: string): Promise<void> {
   }
 }
 
-async function createOrUpdatePR(branchName: string, trunk: string): Promise<void> {
-  // Check if PR already exists
-  const existingPR = gh.getPRForBranch(branchName);
-
+/**
+ * Create a PR for a branch, or update the existing one.
+ * Returns the existing PR if its base had to be retargeted to the branch's parent.
+ */
+async function createOrUpdatePR(
+  branchName: string,
+  existingPR: PRDetails | undefined,
+  trunk: string,
+  options: PROptions,
+): Promise<PRRetarget[]> {
   if (existingPR) {
+    config.setPRNumber(branchName, existingPR.number);
     output.success(`Pushed PR #${existingPR.number}: ${existingPR.title}`);
     output.log(`  ${existingPR.url}`);
 
+    if (options.ready && existingPR.isDraft) {
+      await forge.getForge().markPRReady(existingPR.number);
+      output.success(`Marked PR #${existingPR.number} ready for review`);
+    }
+
+    if (hasMetadata(options.requested)) {
+      await forge.getForge().addPRMetadata(existingPR.number, options.requested);
+      output.success(`Updated reviewers, labels and assignees of PR #${existingPR.number}`);
+    }
+
+    // The parent may have changed since the PR was opened (restack, move, sync)
+    const retargeted = await prStack.retargetPRBases(
+      [{ branch: branchName, number: existingPR.number, baseRefName: existingPR.baseRefName }],
+      trunk,
+    );
+
     const updateDescription = await prompts.promptConfirmation(
       'Update PR description?',
       false,
@@ -111,7 +242,7 @@ async function createOrUpdatePR(branchName: string, trunk: string): Promise<void
       await regeneratePRDescription(existingPR.number, branchName, parentBranch, existingPR.title);
     }
 
-    return;
+    return retargeted;
   }
 
   // Create new PR
@@ -134,10 +265,27 @@ async function createOrUpdatePR(branchName: string, trunk: string): Promise<void
     }
   }
 
+  // Repo defaults plus anything given on the command line
+  const defaults = config.getSubmitDefaults();
+  const metadata: PRMetadata = {
+    reviewers: unique([...defaults.reviewers, ...options.requested.reviewers]),
+    labels: unique([...defaults.labels, ...options.requested.labels]),
+    assignees: unique([...defaults.assignees, ...options.requested.assignees]),
+    milestone: options.requested.milestone ?? defaults.milestone,
+  };
+  if (options.codeowners) {
+    metadata.reviewers.push(...await promptCodeownerReviewers(branchName, parentBranch, metadata.reviewers));
+  }
+
   const spin = output.spinner('Creating PR...');
   try {
-    const pr = gh.createPR(prTitle, prBody, parentBranch);
-    spin.succeed(`Created PR #${pr.number}: ${pr.title} (${branchName} → ${parentBranch})`);
+    const pr = await forge.getForge().createPR(prTitle, prBody, parentBranch, {
+      head: branchName,
+      draft: options.draft,
+      metadata,
+    });
+    config.setPRNumber(branchName, pr.number);
+    spin.succeed(`Created ${options.draft ? 'draft ' : ''}PR #${pr.number}: ${pr.title} (${branchName} → ${parentBranch})`);
     output.log(`  ${pr.url}`);
 
     // Automatically open the PR in browser (skip in tests)
@@ -156,7 +304,7 @@ async function createOrUpdatePR(branchName: string, trunk: string): Promise<void
     // Check if error is because PR already exists
     if (error.message.includes('already exists')) {
       // Extract URL from error message if present
-      const urlMatch = error.message.match(/(https:\/\/github\.com\/[^\s]+)/);
+      const urlMatch = error.message.match(/(https:\/\/\S+\/(?:pull|merge_requests)\/\d+)/);
       if (urlMatch) {
         output.success(`Updated existing PR: ${urlMatch[1]}`);
 
@@ -178,6 +326,43 @@ async function createOrUpdatePR(branchName: string, trunk: string): Promise<void
       output.error(`Failed to create PR: ${error.message}`);
     }
   }
+
+  return [];
+}
+
+/**
+ * Suggest code owners of the branch's changed files as reviewers and let the user pick
+ */
+async function promptCodeownerReviewers(
+  branchName: string,
+  parentBranch: string,
+  alreadyRequested: string[],
+): Promise<string[]> {
+  const content = codeowners.readCodeowners(git.getRepoRoot());
+  if (!content) {
+    output.warning('No CODEOWNERS file found');
+    return [];
+  }
+
+  const files = git.getChangedFileNames(parentBranch, branchName);
+  const suggestions = codeowners.getReviewersForFiles(content, files)
+    .filter(reviewer => !alreadyRequested.includes(reviewer));
+  if (suggestions.length === 0) {
+    return [];
+  }
+
+  return prompts.promptMultiSelection(`Request reviews from code owners of ${branchName}:`, suggestions);
+}
+
+function hasMetadata(metadata: PRMetadata): boolean {
+  return metadata.reviewers.length > 0
+    || metadata.labels.length > 0
+    || metadata.assignees.length > 0
+    || !!metadata.milestone;
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items)];
 }
 
 async function regeneratePRDescription(
@@ -197,7 +382,7 @@ async function regeneratePRDescription(
     spin.succeed('Generated PR description');
 
     const updateSpin = output.spinner('Updating PR description...');
-    gh.updatePRBody(prNumber, body);
+    await forge.getForge().updatePRBody(prNumber, body);
     updateSpin.succeed('Updated PR description');
   } catch (error: any) {
     spin.fail('Failed to generate description');
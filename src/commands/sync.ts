@@ -1,10 +1,29 @@
 import * as git from '../lib/git.js';
-import * as gh from '../lib/gh.js';
+import * as forge from '../lib/forge.js';
 import * as config from '../lib/config.js';
 import * as prompts from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import * as prStack from '../lib/pr-stack.js';
+import * as restack from '../lib/restack.js';
+import { deleteBranchCleanly } from '../lib/stack.js';
+import { PRDetails, PRRetarget, RestackResult, SyncClassification, SyncStatus } from '../types/index.js';
+
+/**
+ * Why a branch counts as merged, as reported by merged[].reason in the
+ * version 1 JSON output (kept alongside the newer status)
+ */
+const MERGE_REASONS: Partial<Record<SyncStatus, string>> = {
+  'merged-locally': 'merged into trunk',
+  'pr-merged': 'PR merged',
+  'squash-detected': 'squash-merged',
+  'remote-deleted': 'remote branch deleted',
+};
+
+export async function syncCommand(options: { json?: boolean } = {}): Promise<void> {
+  if (options.json) {
+    output.setJsonMode(true);
+  }
 
-export async function syncCommand(): Promise<void> {
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
@@ -40,25 +59,28 @@ export async function syncCommand(): Promise<void> {
     }
   }
 
-  // Batch-fetch PR statuses from GitHub (single API call)
-  let prStatuses = new Map<string, { state: string; merged: boolean }>();
-  const ghAuthenticated = gh.isGhAuthenticated();
-  if (ghAuthenticated) {
+  const trackedBranches = config.getTrackedBranches().filter(b => b !== trunk);
+
+  // Batch-fetch the PR of every tracked branch from GitHub or GitLab
+  let prStatuses = new Map<string, PRDetails>();
+  const provider = forge.getForge();
+  const forgeAuthenticated = await provider.isAuthenticated();
+  if (forgeAuthenticated) {
     const prSpin = output.spinner('Checking PR statuses...');
     try {
-      prStatuses = gh.getAllPRStatuses();
+      prStatuses = await provider.getPRsForBranches(trackedBranches);
       prSpin.succeed(`Checked ${prStatuses.size} PR(s)`);
     } catch {
       prSpin.fail('Could not fetch PR statuses');
     }
   }
 
-  // Analyze tracked branches
-  const trackedBranches = config.getTrackedBranches().filter(b => b !== trunk);
-  const mergedBranches: string[] = [];
-  const closedBranches: string[] = [];
-  const divergedBranches: string[] = [];
-  let syncedCount = 0;
+  // Classify tracked branches
+  const classifications: SyncClassification[] = [];
+  const classify = (branch: string, status: SyncStatus, detail: string): void => {
+    classifications.push({ branch, status, detail });
+  };
+  const fastForwarded: Array<{ branch: string; commits: number }> = [];
 
   output.separator();
 
@@ -71,51 +93,64 @@ export async function syncCommand(): Promise<void> {
 
     // 1. Check if merged locally (works for regular merges)
     if (git.isMerged(branchName, trunk)) {
-      mergedBranches.push(branchName);
+      classify(branchName, 'merged-locally', `reachable from ${trunk}`);
       continue;
     }
 
-    // 2. Check PR status on GitHub (catches squash merges, closed PRs)
+    // 2. Check PR status on GitHub/GitLab (catches squash merges, closed PRs)
     const prStatus = prStatuses.get(branchName);
     if (prStatus) {
+      const reference = `${provider.referencePrefix}${prStatus.number}`;
       if (prStatus.merged || prStatus.state === 'MERGED') {
-        mergedBranches.push(branchName);
+        classify(branchName, 'pr-merged', `${reference} merged`);
         continue;
       }
       if (prStatus.state === 'CLOSED') {
-        closedBranches.push(branchName);
+        classify(branchName, 'pr-closed', `${reference} closed without merging`);
         continue;
       }
     }
 
-    // 3. Check if remote branch was deleted (after --prune fetch)
+    // 3. Check if the branch's changes landed on trunk as a squashed or cherry-picked
+    //    commit (git only, so it also works offline and without gh)
+    if (git.isSquashMerged(branchName, trunk)) {
+      classify(branchName, 'squash-detected', `changes already on ${trunk}`);
+      continue;
+    }
+
+    // 4. Check if remote branch was deleted (after --prune fetch)
     //    If a branch was pushed before but origin/<branch> is now gone,
     //    the remote branch was deleted (typically after merge on GitHub)
     const wasEverPushed = git.hasUpstream(branchName);
     const remoteExists = git.hasRemote(branchName);
     if (wasEverPushed && !remoteExists) {
-      mergedBranches.push(branchName);
+      classify(branchName, 'remote-deleted', `origin/${branchName} deleted`);
       continue;
     }
 
-    // 4. Check if behind/ahead of remote for fast-forward
-    if (remoteExists) {
-      const { ahead, behind } = git.compareWithRemote(branchName);
-
-      if (behind > 0 && ahead === 0) {
-        // Can fast-forward
-        try {
-          git.checkoutBranch(branchName);
-          git.pull();
-          output.success(`Fast-forwarded ${branchName} (${behind} commits)`);
-          syncedCount++;
-        } catch {
-          divergedBranches.push(branchName);
-        }
-      } else if (behind > 0 && ahead > 0) {
-        // Diverged
-        divergedBranches.push(branchName);
+    // 5. Check if behind/ahead of remote for fast-forward
+    if (!remoteExists) {
+      classify(branchName, 'up-to-date', 'not pushed');
+      continue;
+    }
+
+    const { ahead, behind } = git.compareWithRemote(branchName);
+    if (behind > 0 && ahead === 0) {
+      // Can fast-forward
+      try {
+        git.checkoutBranch(branchName);
+        git.pull();
+        classify(branchName, 'fast-forwarded', `pulled ${behind} commit(s)`);
+        fastForwarded.push({ branch: branchName, commits: behind });
+      } catch {
+        classify(branchName, 'diverged', 'fast-forward failed');
       }
+    } else if (behind > 0 && ahead > 0) {
+      classify(branchName, 'diverged', `${ahead} ahead, ${behind} behind origin`);
+    } else if (ahead > 0) {
+      classify(branchName, 'up-to-date', `${ahead} unpushed commit(s)`);
+    } else {
+      classify(branchName, 'up-to-date', 'matches origin');
     }
   }
 
@@ -128,45 +163,123 @@ export async function syncCommand(): Promise<void> {
     }
   }
 
+  const withStatus = (...statuses: SyncStatus[]) =>
+    classifications.filter(c => statuses.includes(c.status));
+  const mergedBranches = withStatus('merged-locally', 'pr-merged', 'squash-detected', 'remote-deleted');
+  const closedBranches = withStatus('pr-closed').map(c => c.branch);
+  const divergedBranches = withStatus('diverged').map(c => c.branch);
+
+  // Show why each branch was classified, so the deletion prompts can be checked
+  if (classifications.length > 0) {
+    output.table(
+      ['Branch', 'Status', 'Detail'],
+      classifications.map(c => [c.branch, c.status, c.detail]),
+    );
+  }
+
   // Handle merged branches
+  let deletedMerged = false;
+  const adoptedBranches: string[] = [];
   if (mergedBranches.length > 0) {
     output.separator();
-    output.info('Merged branches:');
-    mergedBranches.forEach(b => output.log(`  - ${b}`));
+    deletedMerged = await prompts.promptConfirmation(
+      `Delete ${mergedBranches.length} merged branch(es)?`,
+      true,
+    );
 
-    const shouldDelete = await prompts.promptConfirmation('Delete merged branches?', true);
-
-    if (shouldDelete) {
-      for (const branchName of mergedBranches) {
+    if (deletedMerged) {
+      const merged = new Set(mergedBranches.map(({ branch }) => branch));
+      for (const { branch: branchName } of mergedBranches) {
+        // Children of a merged branch still contain its commits; remember where it
+        // ended so only their own commits are moved onto the new parent
+        const tip = git.getSha(branchName);
+        for (const child of config.getChildren(branchName).filter(c => !merged.has(c))) {
+          if (git.isAncestor(tip, child)) {
+            config.setBranchBase(child, tip);
+          } else {
+            restack.ensureBase(child, branchName);
+          }
+          adoptedBranches.push(child);
+        }
         await deleteBranchCleanly(branchName, currentBranch, trunk);
       }
     }
   }
 
+  // Rebase the children adopted from merged branches onto their new parents
+  let restacked: RestackResult[] = [];
+  let pushed: string[] = [];
+  if (adoptedBranches.length > 0) {
+    const shouldRestack = await prompts.promptConfirmation(
+      `Restack ${adoptedBranches.length} adopted branch(es) onto their new parents?`,
+      true,
+    );
+    if (shouldRestack) {
+      // Bases were recorded before deleting the merged branches, so no previous SHAs are needed
+      restacked = restack.restackDescendantsOf(adoptedBranches, {}, git.getCurrentBranch());
+      pushed = await pushRestackedBranches(restacked);
+    }
+  }
+
   // Handle closed branches (PR closed without merge)
+  let deletedClosed = false;
   if (closedBranches.length > 0) {
     output.separator();
-    output.info('Branches with closed PRs (not merged):');
-    closedBranches.forEach(b => output.log(`  - ${b}`));
+    deletedClosed = await prompts.promptConfirmation(
+      `Delete ${closedBranches.length} branch(es) with closed PRs?`,
+      false,
+    );
 
-    const shouldDelete = await prompts.promptConfirmation('Delete branches with closed PRs?', false);
-
-    if (shouldDelete) {
+    if (deletedClosed) {
       for (const branchName of closedBranches) {
         await deleteBranchCleanly(branchName, currentBranch, trunk);
       }
     }
   }
 
-  // Show diverged branches
+  // Retarget open PRs whose parent changed (e.g. children adopted after a merge)
+  let retargeted: PRRetarget[] = [];
+  if (forgeAuthenticated) {
+    const openPRs: Array<{ branch: string; number: number; baseRefName: string }> = [];
+    for (const branchName of config.getTrackedBranches()) {
+      const prStatus = prStatuses.get(branchName);
+      if (prStatus?.state === 'OPEN' && git.branchExists(branchName)) {
+        openPRs.push({ branch: branchName, number: prStatus.number, baseRefName: prStatus.baseRefName });
+      }
+    }
+    retargeted = await prStack.retargetPRBases(openPRs, trunk);
+    prStack.printRetargetSummary(retargeted, provider.referencePrefix);
+  }
+
+  // Diverged branches need a manual rebase
   if (divergedBranches.length > 0) {
     output.separator();
-    output.warning('Diverged branches (manual rebase needed):');
-    divergedBranches.forEach(b => output.log(`  - ${b}`));
+    output.warning(`${divergedBranches.length} diverged branch(es) need a manual rebase: ${divergedBranches.join(', ')}`);
+  }
+
+  if (options.json) {
+    output.json({
+      trunk,
+      branches: classifications,
+      merged: mergedBranches.map(({ branch, status }) => ({
+        branch,
+        reason: MERGE_REASONS[status],
+        status,
+        deleted: deletedMerged,
+      })),
+      closed: closedBranches.map(branch => ({ branch, deleted: deletedClosed })),
+      diverged: divergedBranches,
+      fastForwarded,
+      retargeted,
+      restacked,
+      pushed,
+    });
+    return;
   }
 
   // Summary
   output.separator();
+  const syncedCount = fastForwarded.length;
   const deleted = mergedBranches.length + closedBranches.length;
   if (deleted > 0) {
     output.success(`Cleaned up ${deleted} branch(es), synced ${syncedCount} branch(es)`);
@@ -176,47 +289,32 @@ export async function syncCommand(): Promise<void> {
 }
 
 /**
- * Delete a branch cleanly: adopt children, switch if needed, delete, untrack.
+ * Offer to force-push restacked branches that are on the remote, so their PRs
+ * stop showing the merged parent's commits. Returns the pushed branches.
  */
-async function deleteBranchCleanly(branchName: string, currentBranch: string, trunk: string): Promise<void> {
-  // Don't delete if currently on this branch
-  if (branchName === currentBranch) {
-    git.checkoutBranch(trunk);
+async function pushRestackedBranches(results: RestackResult[]): Promise<string[]> {
+  const branches = results
+    .filter(r => r.outcome === 'rebased' && git.hasRemote(r.branch))
+    .map(r => r.branch);
+  if (branches.length === 0) {
+    return [];
   }
 
-  try {
-    // Before deleting, adopt children to grandparent
-    adoptChildrenToGrandparent(branchName, trunk);
+  const shouldPush = await prompts.promptConfirmation(`Push ${branches.length} restacked branch(es)?`, true);
+  if (!shouldPush) {
+    return [];
+  }
 
-    // Try normal delete first, fall back to force delete for squash-merged branches
+  const pushed: string[] = [];
+  for (const branch of branches) {
+    const spin = output.spinner(`Force pushing ${branch}...`);
     try {
-      git.deleteBranch(branchName);
+      git.push(branch, true, true);
+      spin.succeed(`Force pushed ${branch}`);
+      pushed.push(branch);
     } catch {
-      git.forceDeleteBranch(branchName);
+      spin.fail(`Could not push ${branch}`);
     }
-    config.removeTrackedBranch(branchName);
-    output.success(`Deleted ${branchName}`);
-  } catch (error: any) {
-    output.error(`Failed to delete ${branchName}: ${error.message}`);
-  }
-}
-
-/**
- * When deleting a branch, update its children to point to its parent (adopt grandparent)
- */
-function adoptChildrenToGrandparent(branchToDelete: string, trunk: string): void {
-  const children = config.getChildren(branchToDelete);
-
-  if (children.length === 0) {
-    return;
-  }
-
-  // Get the parent of the branch being deleted
-  const grandparent = config.getParentBranch(branchToDelete) || trunk;
-
-  // Update each child to point to grandparent
-  for (const child of children) {
-    config.setParentBranch(child, grandparent);
-    output.info(`  Updated ${child} to point to ${grandparent}`);
   }
+  return pushed;
 }
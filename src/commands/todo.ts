@@ -1,9 +1,11 @@
 import * as git from '../lib/git.js';
 import * as config from '../lib/config.js';
-import * as gh from '../lib/gh.js';
+import * as forge from '../lib/forge.js';
 import * as output from '../lib/output.js';
+import * as prompts from '../lib/prompts.js';
 import { select } from '@inquirer/prompts';
 import chalk from 'chalk';
+import { PRDetails } from '../types/index.js';
 
 interface PRItem {
   number: number;
@@ -21,22 +23,29 @@ interface PRItem {
   category: string;
 }
 
+type ChecksState = 'failing' | 'pending' | 'passing' | 'none';
+
 interface TodoCategory {
   title: string;
   items: PRItem[];
   priority: number;
 }
 
-export async function todoCommand(): Promise<void> {
+export async function todoCommand(options: { json?: boolean } = {}): Promise<void> {
+  if (options.json) {
+    output.setJsonMode(true);
+  }
+
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
     process.exit(1);
   }
 
-  // Check if gh is authenticated
-  if (!gh.isGhAuthenticated()) {
-    output.error('GitHub CLI not authenticated. Run "gh auth login" first.');
+  // Check if the forge (gh or GitLab) is authenticated
+  const provider = forge.getForge();
+  if (!(await provider.isAuthenticated())) {
+    output.error(provider.authError);
     process.exit(1);
   }
 
@@ -47,7 +56,7 @@ export async function todoCommand(): Promise<void> {
 
   try {
     // Fetch all relevant PRs
-    categories = fetchAndCategorizePRs();
+    categories = await fetchAndCategorizePRs();
 
     // Get local tracked branches that don't have PRs
     localBranches = getLocalBranches(categories);
@@ -59,16 +68,19 @@ export async function todoCommand(): Promise<void> {
     process.exit(1);
   }
 
+  if (options.json) {
+    output.json(toJson(categories!, localBranches!));
+    return;
+  }
+
   // Display outside try/catch so prompt cancellation propagates cleanly
   await displayTodoList(categories!, localBranches!);
 }
 
-const PR_FIELDS = 'number,title,url,headRefName,isDraft,state,reviewDecision,statusCheckRollup';
-
 /**
  * Fetch PRs and organize into categories
  */
-function fetchAndCategorizePRs(): Map<string, TodoCategory> {
+async function fetchAndCategorizePRs(): Promise<Map<string, TodoCategory>> {
   const categories = new Map<string, TodoCategory>();
 
   // Initialize categories
@@ -98,66 +110,56 @@ function fetchAndCategorizePRs(): Map<string, TodoCategory> {
     priority: 5,
   });
 
-  // Fetch PRs where you're requested as reviewer
+  // Fetch PRs where you're requested as reviewer and your own PRs in one request
+  let reviewRequested: PRItem[] = [];
+  let myPRs: PRItem[] = [];
   try {
-    const reviewRequested = fetchPRs('review-requested:@me state:open');
-    reviewRequested.forEach(pr => {
-      pr.category = 'needs-my-review';
-      categories.get('needs-my-review')!.items.push(pr);
-    });
+    const results = await forge.getForge().searchPRs(['review-requested', 'authored']);
+    [reviewRequested, myPRs] = results.map(prs => prs.map(toPRItem));
   } catch (e) {
     // Ignore if search fails
   }
 
-  // Fetch your PRs
-  try {
-    const myPRs = fetchPRs('author:@me state:open');
-
-    myPRs.forEach(pr => {
-      if (pr.isDraft) {
-        pr.category = 'draft';
-        categories.get('draft')!.items.push(pr);
-      } else if (pr.reviewDecision === 'CHANGES_REQUESTED') {
-        pr.category = 'change-requests';
-        categories.get('change-requests')!.items.push(pr);
-      } else if (pr.reviewDecision === 'APPROVED') {
-        pr.category = 'approved';
-        categories.get('approved')!.items.push(pr);
-      } else {
-        pr.category = 'awaiting-review';
-        categories.get('awaiting-review')!.items.push(pr);
-      }
-    });
-  } catch (e) {
-    // Ignore if fetch fails
-  }
+  reviewRequested.forEach(pr => {
+    pr.category = 'needs-my-review';
+    categories.get('needs-my-review')!.items.push(pr);
+  });
+
+  myPRs.forEach(pr => {
+    if (pr.isDraft) {
+      pr.category = 'draft';
+      categories.get('draft')!.items.push(pr);
+    } else if (pr.reviewDecision === 'CHANGES_REQUESTED') {
+      pr.category = 'change-requests';
+      categories.get('change-requests')!.items.push(pr);
+    } else if (pr.reviewDecision === 'APPROVED') {
+      pr.category = 'approved';
+      categories.get('approved')!.items.push(pr);
+    } else {
+      pr.category = 'awaiting-review';
+      categories.get('awaiting-review')!.items.push(pr);
+    }
+  });
 
   return categories;
 }
 
 /**
- * Fetch PRs using gh CLI via executor
+ * Convert a fetched PR into a todo item
  */
-function fetchPRs(searchQuery: string): PRItem[] {
-  const prs = gh.searchPRs(searchQuery, PR_FIELDS);
-
-  return prs.map((pr: any) => {
-    const total = gh.getPRCommentCount(pr.number);
-    const resolved = gh.getPRResolvedThreadCount(pr.number);
-
-    return {
-      number: pr.number,
-      title: pr.title,
-      url: pr.url,
-      branch: pr.headRefName,
-      isDraft: pr.isDraft,
-      state: pr.state,
-      reviewDecision: pr.reviewDecision,
-      statusCheckRollup: pr.statusCheckRollup,
-      comments: { total, resolved },
-      category: '',
-    };
-  });
+function toPRItem(pr: PRDetails): PRItem {
+  return {
+    number: pr.number,
+    title: pr.title,
+    url: pr.url,
+    branch: pr.headRefName,
+    isDraft: pr.isDraft,
+    state: pr.state,
+    reviewDecision: pr.reviewDecision ?? undefined,
+    statusCheckRollup: pr.checks,
+    comments: pr.comments,
+    category: '',
+  };
 }
 
 /**
@@ -239,6 +241,11 @@ async function displayTodoList(
     return;
   }
 
+  if (prompts.isNonInteractive()) {
+    output.error('fgt todo is an interactive menu and cannot run in non-interactive mode. Use --json instead');
+    process.exit(1);
+  }
+
   // Show selection in a loop so Cancel returns to the menu
   let keepGoing = true;
   while (keepGoing) {
@@ -264,46 +271,80 @@ async function displayTodoList(
   }
 }
 
+/**
+ * Summarize a PR's CI checks - statusCheckRollup is an array of CheckRun objects
+ */
+function getChecksState(pr: PRItem): ChecksState {
+  if (!pr.statusCheckRollup || !Array.isArray(pr.statusCheckRollup) || pr.statusCheckRollup.length === 0) {
+    return 'none';
+  }
+
+  // Filter out malformed checks (where name/status/conclusion are undefined)
+  const checks = pr.statusCheckRollup.filter((c: any) => c && c.name);
+
+  // Check for failures or errors
+  const hasFailure = checks.some((c: any) =>
+    c.conclusion === 'FAILURE' ||
+    c.conclusion === 'ERROR' ||
+    c.conclusion === 'TIMED_OUT' ||
+    c.conclusion === 'ACTION_REQUIRED'
+  );
+
+  // Check for pending/in-progress
+  const hasPending = checks.some((c: any) =>
+    c.status === 'IN_PROGRESS' ||
+    c.status === 'QUEUED' ||
+    c.status === 'PENDING' ||
+    c.status === 'REQUESTED' ||
+    c.status === 'WAITING' ||
+    (c.status !== 'COMPLETED' && !c.conclusion)
+  );
+
+  if (hasFailure) {
+    return 'failing';
+  }
+  if (hasPending) {
+    return 'pending';
+  }
+  return 'passing';
+}
+
+/**
+ * Build the --json document: PRs keyed by category (every category present), plus branches without PRs
+ */
+function toJson(categories: Map<string, TodoCategory>, localBranches: string[]): object {
+  const byCategory: Record<string, object[]> = {};
+  for (const [key, category] of categories) {
+    byCategory[key] = category.items.map(pr => ({
+      number: pr.number,
+      title: pr.title,
+      url: pr.url,
+      branch: pr.branch,
+      isDraft: pr.isDraft,
+      state: pr.state,
+      reviewDecision: pr.reviewDecision || null,
+      checks: getChecksState(pr),
+      comments: pr.comments ?? { total: 0, resolved: 0 },
+    }));
+  }
+  return { categories: byCategory, localBranches };
+}
+
 /**
  * Build indicator string for a PR
  */
 function buildIndicators(pr: PRItem): string {
   const indicators: string[] = [];
 
-  // CI status - statusCheckRollup is an array of CheckRun objects
-  if (pr.statusCheckRollup && Array.isArray(pr.statusCheckRollup) && pr.statusCheckRollup.length > 0) {
-    // Filter out malformed checks (where name/status/conclusion are undefined)
-    const checks = pr.statusCheckRollup.filter((c: any) => c && c.name);
-
-    // Check for failures or errors
-    const hasFailure = checks.some((c: any) =>
-      c.conclusion === 'FAILURE' ||
-      c.conclusion === 'ERROR' ||
-      c.conclusion === 'TIMED_OUT' ||
-      c.conclusion === 'ACTION_REQUIRED'
-    );
-
-    // Check for pending/in-progress
-    const hasPending = checks.some((c: any) =>
-      c.status === 'IN_PROGRESS' ||
-      c.status === 'QUEUED' ||
-      c.status === 'PENDING' ||
-      c.status === 'REQUESTED' ||
-      c.status === 'WAITING' ||
-      (c.status !== 'COMPLETED' && !c.conclusion)
-    );
-
-    // Determine overall state
-    if (hasFailure) {
-      indicators.push(chalk.red('✗'));
-    } else if (hasPending) {
-      indicators.push(chalk.yellow('⋯'));
-    } else {
-      // All checks completed successfully
-      indicators.push(chalk.green('✓'));
-    }
+  // CI status
+  const checks = getChecksState(pr);
+  if (checks === 'failing') {
+    indicators.push(chalk.red('✗'));
+  } else if (checks === 'pending') {
+    indicators.push(chalk.yellow('⋯'));
+  } else if (checks === 'passing') {
+    indicators.push(chalk.green('✓'));
   } else {
-    // No checks or empty array
     indicators.push(chalk.gray('○'));
   }
 
@@ -342,7 +383,7 @@ async function handlePRSelection(prNumber: number): Promise<boolean> {
 
   if (action === 'checkout') {
     try {
-      const branch = gh.getPRBranchName(prNumber);
+      const branch = await forge.getForge().getPRBranchName(prNumber);
 
       if (git.branchExists(branch)) {
         git.checkoutBranch(branch);
@@ -359,7 +400,7 @@ async function handlePRSelection(prNumber: number): Promise<boolean> {
     }
   } else if (action === 'open') {
     try {
-      gh.openPRInBrowser(prNumber);
+      await forge.getForge().openPR(prNumber);
     } catch (error: any) {
       output.error(`Failed to open PR: ${error.message}`);
       return true; // Return to menu on error
@@ -398,7 +439,7 @@ async function handleBranchSelection(branch: string): Promise<boolean> {
   } else if (action === 'create-pr') {
     try {
       output.info('Opening PR creation...');
-      gh.createPRWeb();
+      await forge.getForge().openNewPR();
     } catch (error: any) {
       output.error(`Failed to create PR: ${error.message}`);
       return true; // Return to menu on error
@@ -0,0 +1,29 @@
+import * as git from '../lib/git.js';
+import * as output from '../lib/output.js';
+import { selectChildBranch } from '../lib/navigation.js';
+
+export async function topCommand(): Promise<void> {
+  // Check if in a git repo
+  if (!git.isGitRepo()) {
+    output.error('Not in a git repository');
+    process.exit(1);
+  }
+
+  const currentBranch = git.getCurrentBranch();
+
+  // Walk children to the tip, prompting at forks
+  let targetBranch = currentBranch;
+  let child = await selectChildBranch(targetBranch);
+  while (child) {
+    targetBranch = child;
+    child = await selectChildBranch(targetBranch);
+  }
+
+  if (targetBranch === currentBranch) {
+    output.info(`Already at the top of the stack ('${currentBranch}')`);
+    return;
+  }
+
+  git.checkoutBranch(targetBranch);
+  output.success(`Switched to branch '${targetBranch}'`);
+}
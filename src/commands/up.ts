@@ -1,50 +1,35 @@
 import * as git from '../lib/git.js';
-import * as config from '../lib/config.js';
-import * as prompts from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { selectChildBranch, parseStepCount } from '../lib/navigation.js';
 
-export async function upCommand(): Promise<void> {
+export async function upCommand(steps?: string): Promise<void> {
   // Check if in a git repo
   if (!git.isGitRepo()) {
     output.error('Not in a git repository');
     process.exit(1);
   }
 
-  const currentBranch = git.getCurrentBranch();
-
-  // Get all children (branches that have current as parent)
-  const children = config.getChildren(currentBranch);
-
-  if (children.length === 0) {
-    output.error(`No branches built on top of '${currentBranch}'`);
+  const count = parseStepCount(steps);
+  if (count === null) {
+    output.error(`Invalid number of steps '${steps}'`);
     process.exit(1);
   }
 
-  let targetBranch: string;
-
-  if (children.length === 1) {
-    // Only one child, checkout directly
-    targetBranch = children[0];
-  } else {
-    // Multiple children, show picker
-    const branches = children.map(branch => {
-      let lastCommitMessage = '';
-      try {
-        lastCommitMessage = git.execGit(`log -1 --pretty=%s ${branch} 2>/dev/null`);
-      } catch {
-        lastCommitMessage = 'No commits';
-      }
+  const currentBranch = git.getCurrentBranch();
 
-      return {
-        name: branch,
-        description: `${branch} (${lastCommitMessage})`,
-      };
-    });
+  // Walk up one child at a time, prompting at forks
+  let targetBranch = currentBranch;
+  for (let moved = 0; moved < count; moved++) {
+    const child = await selectChildBranch(targetBranch);
+    if (!child) {
+      break;
+    }
+    targetBranch = child;
+  }
 
-    targetBranch = await prompts.promptBranchSelection(
-      branches,
-      `Multiple branches built on '${currentBranch}':`
-    );
+  if (targetBranch === currentBranch) {
+    output.error(`No branches built on top of '${currentBranch}'`);
+    process.exit(1);
   }
 
   // Checkout the selected branch
@@ -9,10 +9,22 @@ import { submitCommand } from './commands/submit.js';
 import { syncCommand } from './commands/sync.js';
 import { upCommand } from './commands/up.js';
 import { downCommand } from './commands/down.js';
+import { topCommand } from './commands/top.js';
+import { bottomCommand } from './commands/bottom.js';
 import { logCommand } from './commands/log.js';
 import { restackCommand } from './commands/restack.js';
 import { todoCommand } from './commands/todo.js';
 import { comCommand } from './commands/com.js';
+import { configCommand, isConfigKey } from './commands/config.js';
+import { continueCommand } from './commands/continue.js';
+import { abortCommand } from './commands/abort.js';
+import { moveCommand } from './commands/move.js';
+import { splitCommand } from './commands/split.js';
+import { foldCommand } from './commands/fold.js';
+import { deleteCommand } from './commands/delete.js';
+import { renameCommand } from './commands/rename.js';
+import { reorderCommand } from './commands/reorder.js';
+import { setInteractionMode } from './lib/prompts.js';
 
 const program = new Command();
 
@@ -20,6 +32,16 @@ program
   .name('fgt')
   .description('Flo(w)Git - Flo\'s variant of git that flows')
   .version('0.1.0')
+  .option('-y, --yes', 'Accept every confirmation and use defaults for other prompts')
+  .option('--no-interactive', 'Never prompt; use each prompt\'s default or fail (also FGT_NONINTERACTIVE=1)')
+  .hook('preAction', () => {
+    const globalOptions = program.opts();
+    if (globalOptions.yes) {
+      setInteractionMode('yes');
+    } else if (globalOptions.interactive === false) {
+      setInteractionMode('defaults');
+    }
+  })
   .addHelpText(
     'after',
     `
@@ -33,9 +55,11 @@ Unknown commands are passed through to git. For example:
 program
   .command('create')
   .description('Create a new branch based on current changes')
-  .action(async () => {
+  .option('-m, --message <message>', 'Commit message (also names the branch)')
+  .option('-a, --all', 'Stage all changes without prompting')
+  .action(async (options) => {
     try {
-      await createCommand();
+      await createCommand(options);
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -45,9 +69,11 @@ program
 program
   .command('modify')
   .description('Amend the current commit with new changes')
-  .action(async () => {
+  .option('--no-restack', 'Do not restack descendant branches')
+  .option('-a, --all', 'Stage all changes without prompting')
+  .action(async (options) => {
     try {
-      await modifyCommand();
+      await modifyCommand(options);
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -71,6 +97,13 @@ program
   .command('submit')
   .description('Push branch and create/update pull request')
   .option('--current', 'Only submit current branch, not full stack')
+  .option('--draft', 'Create new PRs as drafts')
+  .option('--ready', 'Create new PRs ready for review and mark existing drafts ready')
+  .option('--reviewer <users>', 'Request reviews (comma-separated)')
+  .option('--label <labels>', 'Add labels (comma-separated)')
+  .option('--assignee <users>', 'Assign users, e.g. @me (comma-separated)')
+  .option('--milestone <name>', 'Set the milestone')
+  .option('--codeowners', 'Suggest reviewers for new PRs from CODEOWNERS')
   .action(async (options) => {
     try {
       await submitCommand(options);
@@ -83,9 +116,10 @@ program
 program
   .command('sync')
   .description('Synchronize tracked branches with remote')
-  .action(async () => {
+  .option('--json', 'Print the sync results as JSON')
+  .action(async (options) => {
     try {
-      await syncCommand();
+      await syncCommand(options);
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -93,11 +127,35 @@ program
   });
 
 program
-  .command('up')
-  .description('Navigate to child branch in stack')
+  .command('up [steps]')
+  .description('Navigate to child branch in stack (optionally several levels)')
+  .action(async (steps) => {
+    try {
+      await upCommand(steps);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('down [steps]')
+  .description('Navigate to parent branch in stack (optionally several levels)')
+  .action(async (steps) => {
+    try {
+      await downCommand(steps);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('top')
+  .description('Navigate to the tip of the current stack')
   .action(async () => {
     try {
-      await upCommand();
+      await topCommand();
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -105,11 +163,11 @@ program
   });
 
 program
-  .command('down')
-  .description('Navigate to parent branch in stack')
+  .command('bottom')
+  .description('Navigate to the first branch above trunk in the current stack')
   .action(async () => {
     try {
-      await downCommand();
+      await bottomCommand();
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -119,9 +177,10 @@ program
 program
   .command('log')
   .description('Display branch stack visualization')
-  .action(async () => {
+  .option('--json', 'Print the stack tree as JSON')
+  .action(async (options) => {
     try {
-      await logCommand();
+      await logCommand(options);
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -131,9 +190,109 @@ program
 program
   .command('restack [branch]')
   .description('Change parent and rebase current branch onto it')
-  .action(async (branch?: string) => {
+  .option('--all', 'Rebase every tracked branch onto its parent')
+  .action(async (branch: string | undefined, options) => {
+    try {
+      await restackCommand(branch, options);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('move')
+  .description('Move current branch and its descendants onto another branch')
+  .option('--onto <branch>', 'New parent branch')
+  .action(async (options) => {
     try {
-      await restackCommand(branch);
+      await moveCommand(options);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('reorder')
+  .description('Reorder the branches of the current stack in your editor')
+  .action(async () => {
+    try {
+      await reorderCommand();
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('split')
+  .description('Split the current branch into a chain of stacked branches')
+  .action(async () => {
+    try {
+      await splitCommand();
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('fold')
+  .description('Fold the current branch into its parent')
+  .option('--keep', 'Keep the branch\'s individual commits instead of squashing them')
+  .action(async (options) => {
+    try {
+      await foldCommand(options);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('delete [branch]')
+  .description('Delete a branch and remove it from its stack')
+  .option('-f, --force', 'Delete without asking for confirmation')
+  .action(async (branch, options) => {
+    try {
+      await deleteCommand(branch, options);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rename <new-name>')
+  .description('Rename the current branch, keeping its stack intact')
+  .action(async (newName) => {
+    try {
+      await renameCommand(newName);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('continue')
+  .description('Continue a restack after resolving rebase conflicts')
+  .action(async () => {
+    try {
+      await continueCommand();
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('abort')
+  .description('Abort a restack and restore all branches')
+  .action(async () => {
+    try {
+      await abortCommand();
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -143,9 +302,10 @@ program
 program
   .command('todo')
   .description('Show overview of PRs and branches needing attention')
-  .action(async () => {
+  .option('--json', 'Print PRs and branches as JSON instead of a menu')
+  .action(async (options) => {
     try {
-      await todoCommand();
+      await todoCommand(options);
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -164,11 +324,28 @@ program
     }
   });
 
-const KNOWN_COMMANDS = ['create', 'modify', 'checkout', 'co', 'submit', 'sync', 'up', 'down', 'log', 'restack', 'todo', 'com'];
+program
+  .command('config <key> [value]')
+  .description('Get or set flowgit configuration (keys: trunk, forge, submit.draft, submit.reviewers, submit.labels, submit.assignees, submit.milestone; other keys go to git config)')
+  .action(async (key: string, value?: string) => {
+    try {
+      await configCommand(key, value);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+const KNOWN_COMMANDS = ['create', 'modify', 'checkout', 'co', 'submit', 'sync', 'up', 'down', 'top', 'bottom', 'log', 'restack', 'move', 'reorder', 'split', 'fold', 'delete', 'rename', 'continue', 'abort', 'todo', 'com', 'config'];
+
+const GLOBAL_FLAGS = ['-y', '--yes', '--no-interactive'];
 
-const firstArg = process.argv[2];
-if (firstArg && !firstArg.startsWith('-') && !KNOWN_COMMANDS.includes(firstArg)) {
-  const result = spawnSync('git', process.argv.slice(2), { stdio: 'inherit' });
+const gitArgs = process.argv.slice(2);
+const firstArg = gitArgs.find(arg => !GLOBAL_FLAGS.includes(arg));
+// fgt config handles flowgit's keys; other keys and flags (user.email, --global, -l) are git config's
+const isGitConfig = firstArg === 'config' && !isConfigKey(gitArgs[gitArgs.indexOf(firstArg) + 1] ?? '');
+if (firstArg && !firstArg.startsWith('-') && (!KNOWN_COMMANDS.includes(firstArg) || isGitConfig)) {
+  const result = spawnSync('git', gitArgs.slice(gitArgs.indexOf(firstArg)), { stdio: 'inherit' });
   process.exit(result.status ?? 1);
 }
 
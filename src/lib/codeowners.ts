@@ -0,0 +1,81 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+interface CodeownersRule {
+  pattern: RegExp;
+  owners: string[];
+}
+
+/**
+ * Read the repository's CODEOWNERS file, if it has one
+ */
+export function readCodeowners(repoRoot: string): string | null {
+  for (const path of CODEOWNERS_PATHS) {
+    const fullPath = join(repoRoot, path);
+    if (existsSync(fullPath)) {
+      return readFileSync(fullPath, 'utf-8');
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a CODEOWNERS (gitignore-style) pattern to a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  // Patterns without a slash (other than a trailing one) match at any depth
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  let source = pattern
+    .replace(/^\//, '')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '\u0001')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?')
+    .replace(/\u0001/g, '.*');
+
+  // A directory (or any name) also matches everything below it; a trailing * does not recurse
+  if (source.endsWith('/')) {
+    source = `${source}.*`;
+  } else if (!pattern.endsWith('*')) {
+    source = `${source}(?:/.*)?`;
+  }
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+}
+
+/**
+ * Parse CODEOWNERS content into rules, in file order
+ */
+function parseCodeowners(content: string): CodeownersRule[] {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern: patternToRegExp(pattern), owners };
+    });
+}
+
+/**
+ * Get reviewers for a set of changed files from CODEOWNERS content.
+ * The last matching rule wins for each file. Owners are returned in gh's
+ * reviewer format (user or org/team); email owners are skipped.
+ */
+export function getReviewersForFiles(content: string, files: string[]): string[] {
+  const rules = parseCodeowners(content);
+  const reviewers = new Set<string>();
+
+  for (const file of files) {
+    const rule = [...rules].reverse().find(r => r.pattern.test(file));
+    rule?.owners
+      .filter(owner => owner.startsWith('@'))
+      .forEach(owner => reviewers.add(owner.substring(1)));
+  }
+
+  return [...reviewers];
+}
@@ -1,4 +1,6 @@
 import { getExecutor } from './executor.js';
+import * as metadata from './metadata.js';
+import { ForgeKind, PRMetadata } from '../types/index.js';
 
 /**
  * Get a git config value
@@ -24,77 +26,130 @@ function setConfig(key: string, value: string, cwd?: string): void {
  * Get all tracked branches
  */
 export function getTrackedBranches(cwd?: string): string[] {
-  const tracked = getConfig('flowgit.tracked', cwd);
-  if (!tracked) {
-    return [];
-  }
-  return tracked.split(',').filter(b => b.trim());
+  return [...metadata.loadMetadata(cwd).tracked];
 }
 
 /**
  * Add a branch to the tracked list
  */
 export function addTrackedBranch(branchName: string, cwd?: string): void {
-  const tracked = getTrackedBranches(cwd);
-  if (!tracked.includes(branchName)) {
-    tracked.push(branchName);
-    setConfig('flowgit.tracked', tracked.join(','), cwd);
+  if (getTrackedBranches(cwd).includes(branchName)) {
+    return;
   }
+  metadata.updateMetadata(m => {
+    m.tracked.push(branchName);
+  }, cwd);
 }
 
 /**
- * Remove a branch from the tracked list
+ * Remove a branch from the tracked list, along with its parent, base and PR number,
+ * so a new branch with the same name doesn't inherit them
  */
 export function removeTrackedBranch(branchName: string, cwd?: string): void {
-  const tracked = getTrackedBranches(cwd);
-  const filtered = tracked.filter(b => b !== branchName);
-  if (filtered.length > 0) {
-    setConfig('flowgit.tracked', filtered.join(','), cwd);
-  } else {
-    // Unset if empty
-    try {
-      const executor = getExecutor();
-      executor.exec('git config --unset flowgit.tracked', { cwd });
-    } catch {
-      // Ignore if already unset
-    }
+  const current = metadata.loadMetadata(cwd);
+  if (!current.tracked.includes(branchName) && !current.branches[branchName]) {
+    return;
   }
+  metadata.updateMetadata(m => {
+    m.tracked = m.tracked.filter(b => b !== branchName);
+    delete m.branches[branchName];
+  }, cwd);
 }
 
 /**
  * Get the parent branch for a given branch
  */
 export function getParentBranch(branchName: string, cwd?: string): string | null {
-  return getConfig(`flowgit.branch.${branchName}.parent`, cwd);
+  return metadata.getBranchMetadata(branchName, cwd).parent ?? null;
 }
 
 /**
  * Set the parent branch for a given branch
  */
 export function setParentBranch(branchName: string, parentBranch: string, cwd?: string): void {
-  setConfig(`flowgit.branch.${branchName}.parent`, parentBranch, cwd);
+  metadata.setBranchMetadata(branchName, { parent: parentBranch }, cwd);
+}
+
+/**
+ * Get the recorded base SHA of a branch (the parent commit it was forked from)
+ */
+export function getBranchBase(branchName: string, cwd?: string): string | null {
+  return metadata.getBranchMetadata(branchName, cwd).base ?? null;
+}
+
+/**
+ * Set the base SHA of a branch
+ */
+export function setBranchBase(branchName: string, sha: string, cwd?: string): void {
+  metadata.setBranchMetadata(branchName, { base: sha }, cwd);
+}
+
+/**
+ * Get the PR number recorded for a branch
+ */
+export function getPRNumber(branchName: string, cwd?: string): number | null {
+  return metadata.getBranchMetadata(branchName, cwd).prNumber ?? null;
+}
+
+/**
+ * Record the PR number of a branch
+ */
+export function setPRNumber(branchName: string, prNumber: number, cwd?: string): void {
+  metadata.setBranchMetadata(branchName, { prNumber }, cwd);
+}
+
+/**
+ * Move a branch's metadata to a new name, rewriting tracked entries and children's parent links
+ */
+export function renameBranchMetadata(oldName: string, newName: string, cwd?: string): void {
+  metadata.updateMetadata(m => {
+    m.tracked = m.tracked.map(b => (b === oldName ? newName : b));
+
+    if (m.branches[oldName]) {
+      m.branches[newName] = m.branches[oldName];
+      delete m.branches[oldName];
+    }
+
+    for (const branch of Object.values(m.branches)) {
+      if (branch.parent === oldName) {
+        branch.parent = newName;
+      }
+    }
+  }, cwd);
 }
 
 /**
  * Get all children of a branch (branches that have this branch as parent)
  */
 export function getChildren(branchName: string, cwd?: string): string[] {
-  const tracked = getTrackedBranches(cwd);
-  return tracked.filter(branch => getParentBranch(branch, cwd) === branchName);
+  const { tracked, branches } = metadata.loadMetadata(cwd);
+  return tracked.filter(branch => branches[branch]?.parent === branchName);
+}
+
+/**
+ * Get all descendants of a branch, each listed before its own children
+ */
+export function getDescendants(branchName: string, cwd?: string): string[] {
+  const descendants: string[] = [];
+  for (const child of getChildren(branchName, cwd)) {
+    descendants.push(child, ...getDescendants(child, cwd));
+  }
+  return descendants;
 }
 
 /**
  * Get the full stack from a branch to trunk
  * Returns branches in order from trunk to the given branch
  */
-export function getStackToTrunk(branchName: string, trunk: string = 'main', cwd?: string): string[] {
+export function getStackToTrunk(branchName: string, trunk?: string, cwd?: string): string[] {
+  const trunkBranch = trunk ?? getTrunkBranch(cwd);
   const stack: string[] = [];
   let current = branchName;
 
-  while (current && current !== trunk) {
+  while (current && current !== trunkBranch) {
     stack.unshift(current);
     const parent = getParentBranch(current, cwd);
-    if (!parent || parent === trunk) {
+    if (!parent || parent === trunkBranch) {
       break;
     }
     current = parent;
@@ -104,10 +159,102 @@ export function getStackToTrunk(branchName: string, trunk: string = 'main', cwd?
 }
 
 /**
- * Get the default trunk branch (main or master)
+ * Get the trunk branch.
+ * Resolution order: flowgit.trunk config, origin/HEAD, then probing for main/master.
  */
-export function getTrunkBranch(): string {
-  // For now, hardcoded to 'main'
-  // TODO: Make this configurable
+export function getTrunkBranch(cwd?: string): string {
+  const configured = getConfig('flowgit.trunk', cwd);
+  if (configured) {
+    return configured;
+  }
+
+  const executor = getExecutor();
+
+  // Use the remote's default branch if origin/HEAD is set (e.g. after clone)
+  try {
+    const remoteHead = executor.exec('git symbolic-ref --short refs/remotes/origin/HEAD', { cwd });
+    if (remoteHead.startsWith('origin/')) {
+      return remoteHead.substring('origin/'.length);
+    }
+  } catch {
+    // origin/HEAD not set
+  }
+
+  // Probe for common trunk names
+  for (const candidate of ['main', 'master']) {
+    try {
+      executor.exec(`git rev-parse --verify --quiet refs/heads/${candidate}`, { cwd });
+      return candidate;
+    } catch {
+      // Not found, try next
+    }
+  }
+
   return 'main';
 }
+
+/**
+ * Set the trunk branch
+ */
+export function setTrunkBranch(branchName: string, cwd?: string): void {
+  setConfig('flowgit.trunk', branchName, cwd);
+}
+
+/**
+ * Get the hosting service configured with flowgit.forge, or null to detect it from the remote
+ */
+export function getForgeKind(cwd?: string): ForgeKind | null {
+  const value = getConfig('flowgit.forge', cwd);
+  return value === 'github' || value === 'gitlab' ? value : null;
+}
+
+/**
+ * Set the hosting service PRs are created on
+ */
+export function setForgeKind(kind: ForgeKind, cwd?: string): void {
+  setConfig('flowgit.forge', kind, cwd);
+}
+
+/**
+ * Whether submit creates new PRs as drafts by default
+ */
+export function getSubmitDraftDefault(cwd?: string): boolean {
+  return getConfig('flowgit.submit.draft', cwd) === 'true';
+}
+
+/**
+ * Set whether submit creates new PRs as drafts by default
+ */
+export function setSubmitDraftDefault(draft: boolean, cwd?: string): void {
+  setConfig('flowgit.submit.draft', String(draft), cwd);
+}
+
+/**
+ * Split a comma-separated list, dropping empty entries
+ */
+export function parseList(value: string | null | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Get the reviewers, labels, assignees and milestone submit applies to new PRs by default
+ */
+export function getSubmitDefaults(cwd?: string): PRMetadata {
+  return {
+    reviewers: parseList(getConfig('flowgit.submit.reviewers', cwd)),
+    labels: parseList(getConfig('flowgit.submit.labels', cwd)),
+    assignees: parseList(getConfig('flowgit.submit.assignees', cwd)),
+    milestone: getConfig('flowgit.submit.milestone', cwd) || undefined,
+  };
+}
+
+/**
+ * Set one of the submit defaults (reviewers, labels, assignees or milestone)
+ */
+export function setSubmitDefault(
+  name: 'reviewers' | 'labels' | 'assignees' | 'milestone',
+  value: string,
+  cwd?: string,
+): void {
+  setConfig(`flowgit.submit.${name}`, value, cwd);
+}
@@ -1,22 +1,74 @@
-import { execSync, ExecSyncOptions } from 'child_process';
+import { exec as execCallback, execSync, ExecSyncOptions } from 'child_process';
 
 export interface ExecOptions {
   cwd?: string;
   encoding?: BufferEncoding;
 }
 
+/**
+ * Most child processes execAsync runs at once; further commands wait for a free slot
+ */
+export const DEFAULT_MAX_CONCURRENT = 8;
+
 /**
  * Interface for executing shell commands.
  * Can be mocked in tests to intercept external API calls.
  */
 export interface CommandExecutor {
   exec(command: string, options?: ExecOptions): string;
+  execAsync(command: string, options?: ExecOptions): Promise<string>;
 }
 
 /**
- * Real command executor that uses Node's execSync
+ * Runs async tasks with at most maxConcurrent of them in flight; the rest wait in order
+ */
+export class ConcurrencyLimiter {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private maxConcurrent: number = DEFAULT_MAX_CONCURRENT) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    try {
+      return await task();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Wait until fewer than maxConcurrent tasks are running
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.running < this.maxConcurrent) {
+      this.running++;
+      return;
+    }
+    // The releasing task hands its slot straight to us
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}
+
+/**
+ * Real command executor that uses Node's execSync, or exec for async commands
  */
 export class RealCommandExecutor implements CommandExecutor {
+  private limiter: ConcurrencyLimiter;
+
+  constructor(maxConcurrent: number = DEFAULT_MAX_CONCURRENT) {
+    this.limiter = new ConcurrencyLimiter(maxConcurrent);
+  }
+
   exec(command: string, options: ExecOptions = {}): string {
     try {
       const execOptions: ExecSyncOptions = {
@@ -33,6 +85,24 @@ export class RealCommandExecutor implements CommandExecutor {
       return '';
     }
   }
+
+  async execAsync(command: string, options: ExecOptions = {}): Promise<string> {
+    return this.limiter.run(() =>
+      new Promise<string>((resolve, reject) => {
+        execCallback(
+          command,
+          { encoding: options.encoding || 'utf-8', cwd: options.cwd, maxBuffer: 64 * 1024 * 1024 },
+          (error, stdout) => {
+            if (error) {
+              reject(new Error(`Command failed: ${command}\n${error.message}`));
+            } else {
+              resolve(stdout.toString().trimEnd());
+            }
+          }
+        );
+      })
+    );
+  }
 }
 
 /**
@@ -0,0 +1,59 @@
+import { ForgeKind, ForgeProvider } from '../types/index.js';
+import * as config from './config.js';
+import * as git from './git.js';
+import { githubForge } from './gh.js';
+import { GitLabForge, parseRemoteUrl } from './gitlab.js';
+
+/**
+ * Provider set by tests, used instead of the detected one
+ */
+let forgeOverride: ForgeProvider | null = null;
+
+/**
+ * Guess the hosting service from a remote URL: GitLab if the host mentions gitlab, otherwise GitHub
+ */
+export function detectForgeKind(remoteUrl: string | null): ForgeKind {
+  const host = remoteUrl ? parseRemoteUrl(remoteUrl)?.host : undefined;
+  return host?.includes('gitlab') ? 'gitlab' : 'github';
+}
+
+/**
+ * The hosting service of the repository: flowgit.forge config, or detected from origin's URL
+ */
+export function getForgeKind(cwd?: string): ForgeKind {
+  return config.getForgeKind(cwd) ?? detectForgeKind(git.getRemoteUrl('origin', cwd));
+}
+
+/**
+ * Get the provider for the repository's hosting service
+ */
+export function getForge(cwd?: string): ForgeProvider {
+  if (forgeOverride) {
+    return forgeOverride;
+  }
+
+  if (getForgeKind(cwd) === 'github') {
+    return githubForge;
+  }
+
+  const remoteUrl = git.getRemoteUrl('origin', cwd);
+  const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+  if (!remote) {
+    throw new Error(`Cannot find the GitLab project of remote 'origin' (${remoteUrl ?? 'not set'})`);
+  }
+  return new GitLabForge(remote);
+}
+
+/**
+ * Use a specific provider (for testing)
+ */
+export function setForge(forge: ForgeProvider): void {
+  forgeOverride = forge;
+}
+
+/**
+ * Go back to detecting the provider (for cleanup in tests)
+ */
+export function resetForge(): void {
+  forgeOverride = null;
+}
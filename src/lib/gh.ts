@@ -1,15 +1,15 @@
 import { writeFileSync, unlinkSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { PRInfo } from '../types/index.js';
+import { ForgeProvider, PRCheck, PRDetails, PRInfo, PRMetadata, PRSearch } from '../types/index.js';
 import { getExecutor } from './executor.js';
 
 /**
  * Execute a gh command and return the output
  */
-function execGh(command: string, cwd?: string): string {
+function execGh(command: string, cwd?: string): Promise<string> {
   const executor = getExecutor();
-  return executor.exec(`gh ${command}`, { cwd });
+  return executor.execAsync(`gh ${command}`, { cwd });
 }
 
 /**
@@ -19,18 +19,47 @@ function shellEscape(str: string): string {
   return "'" + str.replace(/'/g, "'\\''") + "'";
 }
 
+let bodyFileCount = 0;
+
+/**
+ * Unique temp file path for a PR body, safe when several PRs are updated at once
+ */
+function bodyFilePath(): string {
+  return join(tmpdir(), `fgt-pr-body-${process.pid}-${Date.now()}-${++bodyFileCount}.md`);
+}
+
+/**
+ * Build the reviewer/label/assignee/milestone flags for gh pr create (or gh pr edit with the add- prefix)
+ */
+function metadataFlags(metadata: PRMetadata, prefix: '' | 'add-'): string {
+  const flags: string[] = [];
+  if (metadata.reviewers.length > 0) {
+    flags.push(`--${prefix}reviewer ${shellEscape(metadata.reviewers.join(','))}`);
+  }
+  if (metadata.labels.length > 0) {
+    flags.push(`--${prefix}label ${shellEscape(metadata.labels.join(','))}`);
+  }
+  if (metadata.assignees.length > 0) {
+    flags.push(`--${prefix}assignee ${shellEscape(metadata.assignees.join(','))}`);
+  }
+  if (metadata.milestone) {
+    flags.push(`--milestone ${shellEscape(metadata.milestone)}`);
+  }
+  return flags.map(flag => ` ${flag}`).join('');
+}
+
 /**
  * Check if a PR exists for a branch
  */
-export function getPRForBranch(branchName: string): PRInfo | null {
+export async function getPRForBranch(branchName: string): Promise<PRInfo | null> {
   try {
     // Try with just the branch name first
-    let output = execGh(`pr list --head ${branchName} --json number,title,url,state,mergedAt`);
+    let output = await execGh(`pr list --head ${branchName} --json number,title,url,state,mergedAt,baseRefName,isDraft`);
 
     // If empty, try with origin/ prefix
     if (!output || output === '[]') {
       try {
-        output = execGh(`pr list --head origin/${branchName} --json number,title,url,state,mergedAt`);
+        output = await execGh(`pr list --head origin/${branchName} --json number,title,url,state,mergedAt,baseRefName,isDraft`);
       } catch {
         // Ignore error, will return null below
       }
@@ -52,6 +81,8 @@ export function getPRForBranch(branchName: string): PRInfo | null {
       url: pr.url,
       state: pr.state,
       merged: pr.mergedAt != null,
+      baseRefName: pr.baseRefName,
+      isDraft: pr.isDraft,
     };
   } catch (error) {
     // Silently return null - PR doesn't exist or can't be fetched
@@ -60,17 +91,26 @@ export function getPRForBranch(branchName: string): PRInfo | null {
 }
 
 /**
- * Create a new PR
+ * Create a new PR from the head branch (default: the current branch),
+ * optionally as a draft, with reviewers, labels, assignees and milestone
  */
-export function createPR(title: string, body: string, baseBranch: string): PRInfo {
-  const tmpFile = join(tmpdir(), `fgt-pr-body-${Date.now()}.md`);
+export async function createPR(
+  title: string,
+  body: string,
+  baseBranch: string,
+  options: { head?: string; draft?: boolean; metadata?: PRMetadata } = {},
+): Promise<PRInfo> {
+  const tmpFile = bodyFilePath();
   try {
     writeFileSync(tmpFile, body);
     // Use --body-file to avoid shell escaping issues with backticks, $(), etc.
-    const url = execGh(`pr create --title ${shellEscape(title)} --body-file ${shellEscape(tmpFile)} --base ${baseBranch}`).trim();
+    const headFlag = options.head ? ` --head ${options.head}` : '';
+    const draftFlag = options.draft ? ' --draft' : '';
+    const extraFlags = options.metadata ? metadataFlags(options.metadata, '') : '';
+    const url = (await execGh(`pr create --title ${shellEscape(title)} --body-file ${shellEscape(tmpFile)} --base ${baseBranch}${headFlag}${draftFlag}${extraFlags}`)).trim();
 
     // Fetch the PR details using the URL
-    const output = execGh(`pr view ${url} --json number,title,url,state`);
+    const output = await execGh(`pr view ${url} --json number,title,url,state`);
     const pr = JSON.parse(output);
 
     return {
@@ -79,6 +119,7 @@ export function createPR(title: string, body: string, baseBranch: string): PRInf
       url: pr.url,
       state: pr.state,
       merged: false,
+      isDraft: !!options.draft,
     };
   } catch (error: any) {
     throw new Error(`Failed to create PR: ${error.message}`);
@@ -90,101 +131,251 @@ export function createPR(title: string, body: string, baseBranch: string): PRInf
 /**
  * Update the body of an existing PR
  */
-export function updatePRBody(prNumber: number, body: string): void {
-  const tmpFile = join(tmpdir(), `fgt-pr-body-${Date.now()}.md`);
+export async function updatePRBody(prNumber: number, body: string): Promise<void> {
+  const tmpFile = bodyFilePath();
   try {
     writeFileSync(tmpFile, body);
-    execGh(`pr edit ${prNumber} --body-file ${shellEscape(tmpFile)}`);
+    await execGh(`pr edit ${prNumber} --body-file ${shellEscape(tmpFile)}`);
   } finally {
     try { unlinkSync(tmpFile); } catch {}
   }
 }
 
 /**
- * Batch-fetch PR statuses for all branches in a single API call.
- * Returns a map from branch name to { state, merged }.
+ * Add reviewers, labels and assignees to an existing PR (and set its milestone)
  */
-export function getAllPRStatuses(): Map<string, { state: string; merged: boolean }> {
-  try {
-    const output = execGh('pr list --state all --json headRefName,state,mergedAt --limit 200');
-    const prs = JSON.parse(output);
-    const map = new Map<string, { state: string; merged: boolean }>();
-    for (const pr of prs) {
-      map.set(pr.headRefName, { state: pr.state, merged: pr.mergedAt != null });
+export async function addPRMetadata(prNumber: number, metadata: PRMetadata): Promise<void> {
+  const flags = metadataFlags(metadata, 'add-');
+  if (flags) {
+    await execGh(`pr edit ${prNumber}${flags}`);
+  }
+}
+
+/**
+ * Change the base branch of a PR
+ */
+export async function updatePRBase(prNumber: number, baseBranch: string): Promise<void> {
+  await execGh(`pr edit ${prNumber} --base ${baseBranch}`);
+}
+
+/**
+ * Mark a draft PR as ready for review
+ */
+export async function markPRReady(prNumber: number): Promise<void> {
+  await execGh(`pr ready ${prNumber}`);
+}
+
+/**
+ * Close a PR without merging it
+ */
+export async function closePR(prNumber: number): Promise<void> {
+  await execGh(`pr close ${prNumber}`);
+}
+
+/**
+ * Fields fetched for every PR by getPRsForBranches and searchPRDetails
+ */
+const PR_FRAGMENT = `
+fragment pr on PullRequest {
+  number title url state isDraft mergedAt reviewDecision body
+  baseRefName headRefName
+  comments { totalCount }
+  reviewThreads(first: 100) { nodes { isResolved } }
+  commits(last: 1) {
+    nodes {
+      commit {
+        statusCheckRollup {
+          contexts(first: 100) {
+            nodes {
+              __typename
+              ... on CheckRun { name status conclusion }
+              ... on StatusContext { context state }
+            }
+          }
+        }
+      }
     }
-    return map;
-  } catch {
-    return new Map();
   }
+}`;
+
+/**
+ * Run a GraphQL query through gh api. Variables are passed as raw strings, except
+ * templated ones where gh fills in {owner} and {repo} from the current repository.
+ */
+async function execGraphQL(
+  query: string,
+  variables: Record<string, string>,
+  templated: Record<string, string> = {},
+): Promise<any> {
+  const fields = [
+    ...Object.entries(templated).map(([name, value]) => ` -F ${name}=${shellEscape(value)}`),
+    ...Object.entries(variables).map(([name, value]) => ` -f ${name}=${shellEscape(value)}`),
+  ].join('');
+  const output = await execGh(`api graphql -f query=${shellEscape(query)}${fields}`);
+  const result = JSON.parse(output);
+  if (result.errors?.length) {
+    throw new Error(result.errors.map((e: any) => e.message).join('; '));
+  }
+  return result.data;
 }
 
 /**
- * Search for PRs using a query string.
- * Returns parsed JSON array of PR objects.
+ * Map a status context onto the status/conclusion of a check run
  */
-export function searchPRs(searchQuery: string, fields: string): any[] {
-  try {
-    const output = execGh(`pr list --search "${searchQuery}" --json ${fields} --limit 100`);
-    return JSON.parse(output);
-  } catch {
-    return [];
+function toCheck(node: any): PRCheck {
+  if (node.__typename !== 'StatusContext') {
+    return { name: node.name, status: node.status, conclusion: node.conclusion ?? null };
   }
+  const pending = node.state === 'PENDING' || node.state === 'EXPECTED';
+  return { name: node.context, status: pending ? 'PENDING' : 'COMPLETED', conclusion: pending ? null : node.state };
+}
+
+function toPRDetails(node: any): PRDetails {
+  const contexts = node.commits?.nodes?.[0]?.commit?.statusCheckRollup?.contexts?.nodes ?? [];
+  return {
+    number: node.number,
+    title: node.title,
+    url: node.url,
+    state: node.state,
+    merged: node.mergedAt != null,
+    isDraft: node.isDraft,
+    reviewDecision: node.reviewDecision ?? null,
+    body: node.body ?? '',
+    baseRefName: node.baseRefName,
+    headRefName: node.headRefName,
+    checks: contexts.map(toCheck),
+    comments: {
+      total: node.comments?.totalCount ?? 0,
+      resolved: (node.reviewThreads?.nodes ?? []).filter((t: any) => t.isResolved).length,
+    },
+  };
 }
 
 /**
- * Get comment count for a PR.
+ * Fetch the most recent PR (in any state) for each branch in a single request.
+ * Branches without a PR are left out of the map.
  */
-export function getPRCommentCount(prNumber: number): number {
-  try {
-    const output = execGh(`pr view ${prNumber} --json comments --jq '.comments | length'`);
-    return parseInt(output.trim()) || 0;
-  } catch {
-    return 0;
+export async function getPRsForBranches(branches: string[]): Promise<Map<string, PRDetails>> {
+  const map = new Map<string, PRDetails>();
+  if (branches.length === 0) {
+    return map;
+  }
+
+  const variables: Record<string, string> = {};
+  const params: string[] = [];
+  const selections: string[] = [];
+  branches.forEach((branch, i) => {
+    variables[`b${i}`] = branch;
+    params.push(`$b${i}: String!`);
+    selections.push(
+      `b${i}: pullRequests(headRefName: $b${i}, first: 1, orderBy: {field: CREATED_AT, direction: DESC}) { nodes { ...pr } }`
+    );
+  });
+
+  const query = `query($owner: String!, $name: String!, ${params.join(', ')}) {
+  repository(owner: $owner, name: $name) {
+    ${selections.join('\n    ')}
   }
 }
+${PR_FRAGMENT}`;
+
+  const data = await execGraphQL(query, variables, { owner: '{owner}', name: '{repo}' });
+  branches.forEach((branch, i) => {
+    const node = data.repository[`b${i}`]?.nodes?.[0];
+    if (node) {
+      map.set(branch, toPRDetails(node));
+    }
+  });
+  return map;
+}
 
 /**
- * Get resolved review thread count for a PR.
+ * Run several PR search queries (e.g. 'review-requested:@me state:open') against
+ * the current repository in a single request. Returns one list per query.
  */
-export function getPRResolvedThreadCount(prNumber: number): number {
-  try {
-    const output = execGh(`pr view ${prNumber} --json reviewThreads --jq '[.reviewThreads[] | select(.isResolved == true)] | length'`);
-    return parseInt(output.trim()) || 0;
-  } catch {
-    return 0;
+export async function searchPRDetails(queries: string[]): Promise<PRDetails[][]> {
+  if (queries.length === 0) {
+    return [];
   }
+
+  // Scope each search to the current repository, as gh pr list --search does
+  const templated: Record<string, string> = {};
+  const params: string[] = [];
+  const selections: string[] = [];
+  queries.forEach((searchQuery, i) => {
+    templated[`q${i}`] = `repo:{owner}/{repo} is:pr ${searchQuery}`;
+    params.push(`$q${i}: String!`);
+    selections.push(`q${i}: search(query: $q${i}, type: ISSUE, first: 100) { nodes { ...pr } }`);
+  });
+
+  const query = `query(${params.join(', ')}) {
+  ${selections.join('\n  ')}
+}
+${PR_FRAGMENT}`;
+
+  const data = await execGraphQL(query, {}, templated);
+  return queries.map((_, i) =>
+    (data[`q${i}`]?.nodes ?? []).filter((node: any) => node?.number != null).map(toPRDetails)
+  );
 }
 
 /**
  * Get the head branch name for a PR.
  */
-export function getPRBranchName(prNumber: number): string {
-  const output = execGh(`pr view ${prNumber} --json headRefName --jq .headRefName`);
+export async function getPRBranchName(prNumber: number): Promise<string> {
+  const output = await execGh(`pr view ${prNumber} --json headRefName --jq .headRefName`);
   return output.trim();
 }
 
 /**
  * Open a PR in the browser.
  */
-export function openPRInBrowser(prNumber: number): void {
-  execGh(`pr view ${prNumber} --web`);
+export async function openPRInBrowser(prNumber: number): Promise<void> {
+  await execGh(`pr view ${prNumber} --web`);
 }
 
 /**
  * Open PR creation in the browser.
  */
-export function createPRWeb(): void {
-  execGh('pr create --web');
+export async function createPRWeb(): Promise<void> {
+  await execGh('pr create --web');
 }
 
 /**
  * Check if gh CLI is installed and authenticated
  */
-export function isGhAuthenticated(): boolean {
+export async function isGhAuthenticated(): Promise<boolean> {
   try {
-    execGh('auth status');
+    await execGh('auth status');
     return true;
   } catch {
     return false;
   }
 }
+
+const SEARCH_QUERIES: Record<PRSearch, string> = {
+  'review-requested': 'review-requested:@me state:open',
+  authored: 'author:@me state:open',
+};
+
+/**
+ * GitHub, through the gh CLI
+ */
+export const githubForge: ForgeProvider = {
+  kind: 'github',
+  authError: 'GitHub CLI not authenticated. Run "gh auth login" first.',
+  referencePrefix: '#',
+  isAuthenticated: isGhAuthenticated,
+  getPRForBranch,
+  getPRsForBranches,
+  searchPRs: searches => searchPRDetails(searches.map(search => SEARCH_QUERIES[search])),
+  createPR,
+  updatePRBody,
+  addPRMetadata,
+  updatePRBase,
+  markPRReady,
+  closePR,
+  getPRBranchName,
+  openPR: openPRInBrowser,
+  openNewPR: createPRWeb,
+};
@@ -1,3 +1,5 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
 import { GitStatus, GitStatusFile } from '../types/index.js';
 import { getExecutor } from './executor.js';
 
@@ -68,6 +70,14 @@ export function getStatus(cwd?: string): GitStatus {
   };
 }
 
+/**
+ * Check for staged or unstaged changes to tracked files; untracked files
+ * are ignored, as they don't stop a rebase
+ */
+export function hasTrackedChanges(cwd?: string): boolean {
+  return getStatus(cwd).files.some(file => file.status !== '??');
+}
+
 /**
  * Stage all changes
  */
@@ -94,6 +104,20 @@ export function createBranch(branchName: string, cwd?: string): void {
   execGit(`checkout -b ${branchName}`, cwd);
 }
 
+/**
+ * Create a new branch at a start point and check it out
+ */
+export function createBranchAt(branchName: string, startPoint: string, cwd?: string): void {
+  execGit(`checkout -b ${branchName} ${startPoint}`, cwd);
+}
+
+/**
+ * Rename a local branch
+ */
+export function renameBranch(oldName: string, newName: string, cwd?: string): void {
+  execGit(`branch -m ${oldName} ${newName}`, cwd);
+}
+
 /**
  * Check if a branch exists locally
  */
@@ -113,6 +137,34 @@ export function checkoutBranch(branchName: string, cwd?: string): void {
   execGit(`checkout ${branchName}`, cwd);
 }
 
+/**
+ * Get the files changed between two commits
+ */
+export function getChangedFiles(from: string, to: string, cwd?: string): GitStatusFile[] {
+  const output = execGit(`diff --name-status --no-renames ${from} ${to}`, cwd);
+  if (!output) {
+    return [];
+  }
+  return output.split('\n').map(line => {
+    const [status, path] = line.split('\t');
+    return { path, status, staged: false };
+  });
+}
+
+/**
+ * Stage files as they are in another commit (removing files deleted there)
+ */
+export function checkoutFilesFrom(ref: string, files: GitStatusFile[], cwd?: string): void {
+  files.forEach(file => {
+    const escapedFile = file.path.replace(/'/g, "'\\''");
+    if (file.status === 'D') {
+      execGit(`rm -q '${escapedFile}'`, cwd);
+    } else {
+      execGit(`checkout ${ref} -- '${escapedFile}'`, cwd);
+    }
+  });
+}
+
 /**
  * Create a commit with a message
  */
@@ -150,6 +202,17 @@ export function hasRemote(branchName: string, cwd?: string): boolean {
   }
 }
 
+/**
+ * Get the URL of a remote, or null if it doesn't exist
+ */
+export function getRemoteUrl(remote: string = 'origin', cwd?: string): string | null {
+  try {
+    return execGit(`remote get-url ${remote}`, cwd);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Fetch from origin (with --prune to remove stale remote tracking branches)
  */
@@ -169,6 +232,13 @@ export function hasUpstream(branchName: string, cwd?: string): boolean {
   }
 }
 
+/**
+ * Stop a branch from tracking a remote branch
+ */
+export function unsetUpstream(branchName: string, cwd?: string): void {
+  execGit(`branch --unset-upstream ${branchName}`, cwd);
+}
+
 /**
  * Push branch to origin
  */
@@ -213,13 +283,95 @@ export function getFirstCommitMessage(branchName: string, parentBranch: string,
  */
 export function isMerged(branchName: string, targetBranch: string, cwd?: string): boolean {
   try {
-    const merged = execGit(`branch --merged ${targetBranch}`, cwd);
-    return merged.includes(branchName);
+    // Compare whole names, so 'fix' isn't reported merged because 'fix-login' is
+    const merged = execGit(`branch --merged ${targetBranch} --format='%(refname:short)'`, cwd);
+    return merged.split('\n').includes(branchName);
   } catch {
     return false;
   }
 }
 
+/**
+ * How many recent commits on the target isSquashMerged compares patch-ids against
+ */
+const SQUASH_SEARCH_DEPTH = 200;
+
+/**
+ * Check if a branch's changes landed on another branch without its commits,
+ * e.g. through a squash merge or by cherry-picking. Uses git only; any of these counts:
+ * - the branch's cumulative diff has the same patch-id as a recent commit on the target
+ * - every commit on the branch has an equivalent on the target (git cherry)
+ * - merging the branch into the target would leave the target's tree unchanged
+ */
+export function isSquashMerged(branchName: string, targetBranch: string, cwd?: string): boolean {
+  let mergeBase: string;
+  try {
+    mergeBase = execGit(`merge-base ${targetBranch} ${branchName}`, cwd);
+  } catch {
+    return false;
+  }
+
+  // No commits of its own - nothing was squash-merged
+  if (mergeBase === getSha(branchName, cwd)) {
+    return false;
+  }
+
+  // No changes of its own (only empty commits, or changes reverted again) - nothing
+  // can have landed on the target, and an empty diff would match any tree below
+  try {
+    execGit(`diff --quiet ${mergeBase} ${branchName}`, cwd);
+    return false;
+  } catch {
+    // diff --quiet exits non-zero when there are changes
+  }
+
+  try {
+    const branchPatchId = execGit(`diff ${mergeBase} ${branchName} | git patch-id --stable`, cwd).split(' ')[0];
+    if (branchPatchId) {
+      const targetPatchIds = execGit(
+        `log -p --no-merges --max-count=${SQUASH_SEARCH_DEPTH} ${mergeBase}..${targetBranch} | git patch-id --stable`,
+        cwd
+      );
+      if (targetPatchIds.split('\n').some(line => line.split(' ')[0] === branchPatchId)) {
+        return true;
+      }
+    }
+  } catch {
+    // Fall through to the other checks
+  }
+
+  try {
+    const cherry = execGit(`cherry ${targetBranch} ${branchName}`, cwd);
+    if (cherry && cherry.split('\n').every(line => line.startsWith('-'))) {
+      return true;
+    }
+  } catch {
+    // Fall through to the tree comparison
+  }
+
+  try {
+    // Exits non-zero on conflicts; the first line is the merged tree
+    const mergedTree = execGit(`merge-tree --write-tree ${targetBranch} ${branchName}`, cwd).split('\n')[0];
+    return mergedTree === execGit(`rev-parse ${targetBranch}^{tree}`, cwd);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fast-forward the current branch to another branch
+ */
+export function mergeFastForward(branchName: string, cwd?: string): void {
+  execGit(`merge --ff-only ${branchName}`, cwd);
+}
+
+/**
+ * Stage the combined changes of another branch without committing (merge --squash)
+ */
+export function mergeSquash(branchName: string, cwd?: string): void {
+  execGit(`merge --squash ${branchName}`, cwd);
+}
+
 /**
  * Delete a branch (safe - only if merged)
  */
@@ -248,6 +400,105 @@ export function rebase(targetBranch: string, cwd?: string): void {
   execGit(`rebase ${targetBranch}`, cwd);
 }
 
+/**
+ * Rebase only the commits after upstream onto a new base
+ */
+export function rebaseOnto(newBase: string, upstream: string, cwd?: string): void {
+  execGit(`rebase --onto ${newBase} ${upstream}`, cwd);
+}
+
+/**
+ * Continue an in-progress rebase without opening an editor
+ */
+export function continueRebase(cwd?: string): void {
+  execGit('-c core.editor=true rebase --continue', cwd);
+}
+
+/**
+ * Abort an in-progress rebase
+ */
+export function abortRebase(cwd?: string): void {
+  execGit('rebase --abort', cwd);
+}
+
+/**
+ * Check if a rebase is currently in progress
+ */
+export function isRebaseInProgress(cwd?: string): boolean {
+  const gitDir = getGitDir(cwd);
+  return existsSync(join(gitDir, 'rebase-merge')) || existsSync(join(gitDir, 'rebase-apply'));
+}
+
+/**
+ * Get the absolute path of the .git directory
+ */
+export function getGitDir(cwd?: string): string {
+  return execGit('rev-parse --absolute-git-dir', cwd);
+}
+
+/**
+ * Get the absolute path of the .git directory shared by all worktrees
+ * (the same as getGitDir outside a linked worktree)
+ */
+export function getCommonGitDir(cwd?: string): string {
+  return execGit('rev-parse --path-format=absolute --git-common-dir', cwd);
+}
+
+/**
+ * Get the root directory of the working tree
+ */
+export function getRepoRoot(cwd?: string): string {
+  return execGit('rev-parse --show-toplevel', cwd);
+}
+
+/**
+ * Get the names of files changed on a branch since it diverged from another
+ */
+export function getChangedFileNames(baseBranch: string, branchName: string, cwd?: string): string[] {
+  const output = execGit(`diff --name-only ${baseBranch}...${branchName}`, cwd);
+  return output ? output.split('\n') : [];
+}
+
+/**
+ * Get the commit SHA a ref points to
+ */
+export function getSha(ref: string, cwd?: string): string {
+  return execGit(`rev-parse ${ref}`, cwd);
+}
+
+/**
+ * Point a branch that is not checked out at another commit
+ */
+export function forceBranch(branchName: string, ref: string, cwd?: string): void {
+  execGit(`branch -f ${branchName} ${ref}`, cwd);
+}
+
+/**
+ * Reset the current branch and working tree to a commit
+ */
+export function resetHard(ref: string, cwd?: string): void {
+  execGit(`reset --hard ${ref}`, cwd);
+}
+
+/**
+ * Get the best common ancestor of two commits
+ */
+export function getMergeBase(ref1: string, ref2: string, cwd?: string): string {
+  return execGit(`merge-base ${ref1} ${ref2}`, cwd);
+}
+
+/**
+ * Check if one commit is an ancestor of another
+ */
+export function isAncestor(ancestor: string, descendant: string, cwd?: string): boolean {
+  try {
+    execGit(`merge-base --is-ancestor ${ancestor} ${descendant}`, cwd);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Get reflog entries for branch checkouts
  */
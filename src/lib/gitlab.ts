@@ -0,0 +1,399 @@
+import { ForgeProvider, PRCheck, PRDetails, PRInfo, PRMetadata, PRSearch } from '../types/index.js';
+import { ConcurrencyLimiter, getExecutor } from './executor.js';
+import * as git from './git.js';
+
+/**
+ * Where a project lives, parsed from its remote URL
+ */
+export interface RemoteLocation {
+  /** Web URL of the instance, e.g. https://gitlab.com */
+  baseUrl: string;
+  host: string;
+  /** Namespace and project name, e.g. group/subgroup/project */
+  projectPath: string;
+}
+
+/**
+ * Parse an SSH (git@host:group/project.git, ssh://git@host/group/project.git)
+ * or HTTP(S) remote URL. SSH remotes are assumed to serve the web UI over HTTPS.
+ */
+export function parseRemoteUrl(url: string): RemoteLocation | null {
+  const scpLike = url.match(/^[\w.-]+@([^:/]+):(?!\/)(.+?)(?:\.git)?\/?$/);
+  if (scpLike) {
+    return { baseUrl: `https://${scpLike[1]}`, host: scpLike[1], projectPath: scpLike[2] };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const projectPath = parsed.pathname.replace(/^\/+/, '').replace(/(\.git)?\/?$/, '');
+  if (!projectPath.includes('/')) {
+    return null;
+  }
+  if (parsed.protocol === 'ssh:') {
+    return { baseUrl: `https://${parsed.hostname}`, host: parsed.hostname, projectPath };
+  }
+  if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+    return { baseUrl: `${parsed.protocol}//${parsed.host}`, host: parsed.hostname, projectPath };
+  }
+  return null;
+}
+
+const STATES: Record<string, string> = {
+  opened: 'OPEN',
+  closed: 'CLOSED',
+  locked: 'CLOSED',
+  merged: 'MERGED',
+};
+
+/** Conclusions of finished pipelines; any other status is still running */
+const PIPELINE_CONCLUSIONS: Record<string, string> = {
+  success: 'SUCCESS',
+  failed: 'FAILURE',
+  canceled: 'CANCELLED',
+  skipped: 'SKIPPED',
+};
+
+const DRAFT_PREFIX = /^\s*(\[draft\]|\(draft\)|draft:)\s*/i;
+
+const SEARCH_PARAMS: Record<PRSearch, string> = {
+  'review-requested': 'reviewer_username',
+  authored: 'author_username',
+};
+
+/** Tokens read from glab's config, per host */
+const glabTokens = new Map<string, Promise<string | null>>();
+
+/**
+ * API token: GITLAB_TOKEN (or GITLAB_PRIVATE_TOKEN), otherwise the one glab is logged in with
+ */
+function getToken(host: string): Promise<string | null> {
+  const fromEnv = process.env.GITLAB_TOKEN || process.env.GITLAB_PRIVATE_TOKEN;
+  if (fromEnv) {
+    return Promise.resolve(fromEnv);
+  }
+
+  if (!glabTokens.has(host)) {
+    glabTokens.set(host, getExecutor().execAsync(`glab config get token --host ${host}`)
+      .then(token => token || null)
+      .catch(() => null));
+  }
+  return glabTokens.get(host)!;
+}
+
+function toPRInfo(mr: any): PRInfo {
+  return {
+    number: mr.iid,
+    title: mr.title,
+    url: mr.web_url,
+    state: STATES[mr.state] ?? String(mr.state).toUpperCase(),
+    merged: mr.state === 'merged',
+    baseRefName: mr.target_branch,
+    isDraft: !!(mr.draft ?? mr.work_in_progress),
+  };
+}
+
+/**
+ * Report the head pipeline as a single check
+ */
+function toChecks(pipeline: any): PRCheck[] {
+  if (!pipeline) {
+    return [];
+  }
+  const conclusion = PIPELINE_CONCLUSIONS[pipeline.status] ?? null;
+  return [{ name: 'pipeline', status: conclusion ? 'COMPLETED' : 'IN_PROGRESS', conclusion }];
+}
+
+/**
+ * Map approvals onto GitHub's review decisions
+ */
+function toReviewDecision(mr: any, approvals: any): string | null {
+  if (mr.detailed_merge_status === 'requested_changes') {
+    return 'CHANGES_REQUESTED';
+  }
+  if (approvals.approved && approvals.approved_by?.length > 0) {
+    return 'APPROVED';
+  }
+  return approvals.approvals_left > 0 ? 'REVIEW_REQUIRED' : null;
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
+
+/**
+ * Bounds the API requests in flight, as batched lookups fan out to several per branch
+ */
+const requests = new ConcurrencyLimiter();
+
+/**
+ * GitLab merge requests, through the REST API (v4)
+ */
+export class GitLabForge implements ForgeProvider {
+  readonly kind = 'gitlab';
+  readonly authError = 'GitLab not authenticated. Set GITLAB_TOKEN or run "glab auth login" first.';
+  readonly referencePrefix = '!';
+
+  constructor(private remote: RemoteLocation) {}
+
+  async isAuthenticated(): Promise<boolean> {
+    if (!(await getToken(this.remote.host))) {
+      return false;
+    }
+    try {
+      await this.api('GET', '/user');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getPRForBranch(branchName: string): Promise<PRInfo | null> {
+    try {
+      const mr = await this.findMergeRequest(branchName);
+      return mr ? toPRInfo(mr) : null;
+    } catch {
+      // Silently return null - MR doesn't exist or can't be fetched
+      return null;
+    }
+  }
+
+  async getPRsForBranches(branches: string[]): Promise<Map<string, PRDetails>> {
+    const mrs = await Promise.all(branches.map(branch => this.findMergeRequest(branch)));
+    const details = await Promise.all(mrs.map(mr => (mr ? this.getDetails(mr) : null)));
+
+    const map = new Map<string, PRDetails>();
+    branches.forEach((branch, i) => {
+      if (details[i]) {
+        map.set(branch, details[i]!);
+      }
+    });
+    return map;
+  }
+
+  async searchPRs(searches: PRSearch[]): Promise<PRDetails[][]> {
+    if (searches.length === 0) {
+      return [];
+    }
+
+    const user = await this.api('GET', '/user');
+    return Promise.all(searches.map(async search => {
+      const username = encodeURIComponent(user.username);
+      const mrs = await this.api(
+        'GET',
+        `${this.projectPath()}/merge_requests?state=opened&${SEARCH_PARAMS[search]}=${username}&per_page=100`,
+      );
+      return Promise.all(mrs.map((mr: any) => this.getDetails(mr)));
+    }));
+  }
+
+  async createPR(
+    title: string,
+    body: string,
+    baseBranch: string,
+    options: { head?: string; draft?: boolean; metadata?: PRMetadata } = {},
+  ): Promise<PRInfo> {
+    try {
+      const metadata = options.metadata;
+      const mr = await this.api('POST', `${this.projectPath()}/merge_requests`, {
+        source_branch: options.head ?? git.getCurrentBranch(),
+        target_branch: baseBranch,
+        title: options.draft ? `Draft: ${title}` : title,
+        description: body,
+        ...(metadata ? await this.metadataFields(metadata) : {}),
+      });
+      return toPRInfo(mr);
+    } catch (error: any) {
+      throw new Error(`Failed to create PR: ${error.message}`);
+    }
+  }
+
+  async updatePRBody(prNumber: number, body: string): Promise<void> {
+    await this.api('PUT', this.mergeRequestPath(prNumber), { description: body });
+  }
+
+  async addPRMetadata(prNumber: number, metadata: PRMetadata): Promise<void> {
+    const fields = await this.metadataFields(metadata);
+    if (Object.keys(fields).length === 0) {
+      return;
+    }
+
+    // Reviewer and assignee ids replace the current ones, so keep those
+    const mr = await this.api('GET', this.mergeRequestPath(prNumber));
+    const update: Record<string, unknown> = { ...fields };
+    if (fields.reviewer_ids) {
+      update.reviewer_ids = unique([...(mr.reviewers ?? []).map((u: any) => u.id), ...fields.reviewer_ids]);
+    }
+    if (fields.assignee_ids) {
+      update.assignee_ids = unique([...(mr.assignees ?? []).map((u: any) => u.id), ...fields.assignee_ids]);
+    }
+    if (fields.labels) {
+      update.add_labels = fields.labels;
+      delete update.labels;
+    }
+    await this.api('PUT', this.mergeRequestPath(prNumber), update);
+  }
+
+  async updatePRBase(prNumber: number, baseBranch: string): Promise<void> {
+    await this.api('PUT', this.mergeRequestPath(prNumber), { target_branch: baseBranch });
+  }
+
+  async markPRReady(prNumber: number): Promise<void> {
+    const mr = await this.api('GET', this.mergeRequestPath(prNumber));
+    await this.api('PUT', this.mergeRequestPath(prNumber), { title: mr.title.replace(DRAFT_PREFIX, '') });
+  }
+
+  async closePR(prNumber: number): Promise<void> {
+    await this.api('PUT', this.mergeRequestPath(prNumber), { state_event: 'close' });
+  }
+
+  async getPRBranchName(prNumber: number): Promise<string> {
+    const mr = await this.api('GET', this.mergeRequestPath(prNumber));
+    return mr.source_branch;
+  }
+
+  async openPR(prNumber: number): Promise<void> {
+    const mr = await this.api('GET', this.mergeRequestPath(prNumber));
+    await openInBrowser(mr.web_url);
+  }
+
+  async openNewPR(): Promise<void> {
+    const branch = encodeURIComponent(git.getCurrentBranch());
+    await openInBrowser(
+      `${this.remote.baseUrl}/${this.remote.projectPath}/-/merge_requests/new?merge_request%5Bsource_branch%5D=${branch}`
+    );
+  }
+
+  /**
+   * Call the REST API; throws with GitLab's error message on a non-2xx response
+   */
+  private async api(method: string, path: string, body?: object): Promise<any> {
+    const token = await getToken(this.remote.host);
+    const { response, text } = await requests.run(async () => {
+      const response = await fetch(`${this.remote.baseUrl}/api/v4${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'PRIVATE-TOKEN': token } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      return { response, text: await response.text() };
+    });
+
+    if (!response.ok) {
+      let message = text;
+      try {
+        const error = JSON.parse(text);
+        message = [error.message ?? error.error].flat().join('; ');
+      } catch {
+        // Not JSON, use the raw response
+      }
+      throw new Error(`GitLab API ${method} ${path} failed (${response.status}): ${message}`);
+    }
+    return text ? JSON.parse(text) : null;
+  }
+
+  private projectPath(): string {
+    return `/projects/${encodeURIComponent(this.remote.projectPath)}`;
+  }
+
+  private mergeRequestPath(prNumber: number): string {
+    return `${this.projectPath()}/merge_requests/${prNumber}`;
+  }
+
+  /**
+   * Most recent merge request (in any state) from a branch
+   */
+  private async findMergeRequest(branchName: string): Promise<any | null> {
+    const mrs = await this.api(
+      'GET',
+      `${this.projectPath()}/merge_requests?source_branch=${encodeURIComponent(branchName)}&order_by=created_at&sort=desc&per_page=1`,
+    );
+    return mrs[0] ?? null;
+  }
+
+  /**
+   * Fill in the pipeline, approvals and resolved discussions a merge request list leaves out
+   */
+  private async getDetails(listed: any): Promise<PRDetails> {
+    const path = this.mergeRequestPath(listed.iid);
+    const [mr, approvals, discussions] = await Promise.all([
+      this.api('GET', path),
+      this.api('GET', `${path}/approvals`),
+      this.api('GET', `${path}/discussions?per_page=100`),
+    ]);
+
+    const resolved = discussions.filter((d: any) =>
+      d.notes?.some((n: any) => n.resolvable) && d.notes.every((n: any) => !n.resolvable || n.resolved)
+    ).length;
+
+    return {
+      ...toPRInfo(mr),
+      baseRefName: mr.target_branch,
+      headRefName: mr.source_branch,
+      isDraft: !!(mr.draft ?? mr.work_in_progress),
+      reviewDecision: toReviewDecision(mr, approvals),
+      body: mr.description ?? '',
+      checks: toChecks(mr.head_pipeline),
+      comments: { total: mr.user_notes_count ?? 0, resolved },
+    };
+  }
+
+  /**
+   * Resolve usernames and the milestone title to the ids the API expects
+   */
+  private async metadataFields(metadata: PRMetadata): Promise<Record<string, any>> {
+    const [reviewerIds, assigneeIds, milestoneId] = await Promise.all([
+      this.getUserIds(metadata.reviewers),
+      this.getUserIds(metadata.assignees),
+      metadata.milestone ? this.getMilestoneId(metadata.milestone) : null,
+    ]);
+
+    const fields: Record<string, any> = {};
+    if (reviewerIds.length > 0) {
+      fields.reviewer_ids = reviewerIds;
+    }
+    if (assigneeIds.length > 0) {
+      fields.assignee_ids = assigneeIds;
+    }
+    if (metadata.labels.length > 0) {
+      fields.labels = metadata.labels.join(',');
+    }
+    if (milestoneId !== null) {
+      fields.milestone_id = milestoneId;
+    }
+    return fields;
+  }
+
+  private getUserIds(usernames: string[]): Promise<number[]> {
+    return Promise.all(usernames.map(async username => {
+      const users = await this.api('GET', `/users?username=${encodeURIComponent(username)}`);
+      if (!users[0]) {
+        throw new Error(`Unknown GitLab user '${username}'`);
+      }
+      return users[0].id as number;
+    }));
+  }
+
+  private async getMilestoneId(title: string): Promise<number> {
+    const milestones = await this.api('GET', `${this.projectPath()}/milestones?title=${encodeURIComponent(title)}`);
+    if (!milestones[0]) {
+      throw new Error(`Unknown milestone '${title}'`);
+    }
+    return milestones[0].id;
+  }
+}
+
+/**
+ * Open a URL in the default browser
+ */
+async function openInBrowser(url: string): Promise<void> {
+  const platform = process.platform;
+  const openCommand = platform === 'darwin' ? 'open' : platform === 'win32' ? 'start' : 'xdg-open';
+  await getExecutor().execAsync(`${openCommand} "${url}"`);
+}
@@ -0,0 +1,124 @@
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { BranchMetadata, Metadata } from '../types/index.js';
+import { getExecutor } from './executor.js';
+import { getSharedStateDir } from './state.js';
+
+const METADATA_VERSION = 1;
+
+/**
+ * Parsed metadata files, keyed by path and invalidated when the file changes
+ */
+const cache = new Map<string, { mtimeMs: number; metadata: Metadata }>();
+
+function getMetadataPath(cwd?: string): string {
+  return join(getSharedStateDir(cwd), 'metadata.json');
+}
+
+/**
+ * Read the legacy metadata stored as individual git config keys
+ * (comma-joined flowgit.tracked and flowgit.branch.<name>.parent/base).
+ */
+function readLegacyConfig(cwd?: string): Metadata {
+  const metadata: Metadata = { version: METADATA_VERSION, tracked: [], branches: {} };
+
+  let output = '';
+  try {
+    output = getExecutor().exec('git config --get-regexp "^flowgit\\.(tracked|branch\\.)"', { cwd });
+  } catch {
+    // No legacy keys
+    return metadata;
+  }
+
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf(' ');
+    if (separator === -1) continue;
+    const key = line.substring(0, separator);
+    const value = line.substring(separator + 1);
+
+    if (key === 'flowgit.tracked') {
+      for (const branch of value.split(',').map(b => b.trim()).filter(Boolean)) {
+        if (!metadata.tracked.includes(branch)) {
+          metadata.tracked.push(branch);
+        }
+      }
+      continue;
+    }
+
+    const match = key.match(/^flowgit\.branch\.(.+)\.(parent|base)$/);
+    if (match) {
+      const [, branch, field] = match;
+      metadata.branches[branch] = { ...metadata.branches[branch], [field]: value };
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Remove the legacy git config keys once they have been migrated
+ */
+function removeLegacyConfig(metadata: Metadata, cwd?: string): void {
+  const executor = getExecutor();
+  try { executor.exec('git config --unset-all flowgit.tracked', { cwd }); } catch {}
+  for (const branch of Object.keys(metadata.branches)) {
+    try { executor.exec(`git config --remove-section "flowgit.branch.${branch}"`, { cwd }); } catch {}
+  }
+}
+
+/**
+ * Load branch metadata (tracked branches, parents, base SHAs, PR numbers) in one read.
+ * Falls back to the legacy git config keys until the metadata file is first written.
+ */
+export function loadMetadata(cwd?: string): Metadata {
+  const path = getMetadataPath(cwd);
+  if (!existsSync(path)) {
+    return readLegacyConfig(cwd);
+  }
+
+  const { mtimeMs } = statSync(path);
+  const cached = cache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.metadata;
+  }
+
+  const metadata: Metadata = JSON.parse(readFileSync(path, 'utf-8'));
+  cache.set(path, { mtimeMs, metadata });
+  return metadata;
+}
+
+/**
+ * Apply a change to the branch metadata and persist it.
+ * The first write migrates the legacy git config keys into the metadata file.
+ */
+export function updateMetadata(update: (metadata: Metadata) => void, cwd?: string): void {
+  const path = getMetadataPath(cwd);
+  const isMigration = !existsSync(path);
+  const metadata = structuredClone(loadMetadata(cwd));
+
+  update(metadata);
+
+  mkdirSync(getSharedStateDir(cwd), { recursive: true });
+  writeFileSync(path, JSON.stringify(metadata, null, 2));
+  cache.set(path, { mtimeMs: statSync(path).mtimeMs, metadata });
+
+  if (isMigration) {
+    removeLegacyConfig(metadata, cwd);
+  }
+}
+
+/**
+ * Get the metadata of a single branch
+ */
+export function getBranchMetadata(branchName: string, cwd?: string): BranchMetadata {
+  return loadMetadata(cwd).branches[branchName] || {};
+}
+
+/**
+ * Update fields of a single branch's metadata
+ */
+export function setBranchMetadata(branchName: string, fields: Partial<BranchMetadata>, cwd?: string): void {
+  updateMetadata(metadata => {
+    metadata.branches[branchName] = { ...metadata.branches[branchName], ...fields };
+  }, cwd);
+}
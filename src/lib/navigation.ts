@@ -0,0 +1,51 @@
+import * as git from './git.js';
+import * as config from './config.js';
+import * as prompts from './prompts.js';
+
+/**
+ * Pick the child branch to move up to.
+ * Returns the only child directly, prompts when the stack forks, or null at the top.
+ */
+export async function selectChildBranch(branchName: string): Promise<string | null> {
+  // Get all children (branches that have current as parent)
+  const children = config.getChildren(branchName);
+
+  if (children.length === 0) {
+    return null;
+  }
+
+  if (children.length === 1) {
+    return children[0];
+  }
+
+  // Multiple children, show picker
+  const branches = children.map(branch => {
+    let lastCommitMessage = '';
+    try {
+      lastCommitMessage = git.execGit(`log -1 --pretty=%s ${branch} 2>/dev/null`);
+    } catch {
+      lastCommitMessage = 'No commits';
+    }
+
+    return {
+      name: branch,
+      description: `${branch} (${lastCommitMessage})`,
+    };
+  });
+
+  return prompts.promptBranchSelection(
+    branches,
+    `Multiple branches built on '${branchName}':`
+  );
+}
+
+/**
+ * Parse the optional step count of up/down. Returns null if it is not a positive integer.
+ */
+export function parseStepCount(steps?: string): number | null {
+  if (steps === undefined) {
+    return 1;
+  }
+  const count = Number(steps);
+  return Number.isInteger(count) && count > 0 ? count : null;
+}
@@ -1,51 +1,102 @@
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
 
+/** Version of the --json output schema, bumped on breaking changes */
+export const JSON_SCHEMA_VERSION = 1;
+
+let jsonMode = false;
+
+/**
+ * Reserve stdout for JSON: messages and tables go to stderr, spinners are silenced
+ */
+export function setJsonMode(enabled: boolean): void {
+  jsonMode = enabled;
+}
+
+/**
+ * Whether stdout is reserved for JSON output
+ */
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Print a line for humans, on stderr in JSON mode
+ */
+function print(line: string): void {
+  if (jsonMode) {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Print a JSON document on stdout, tagged with the schema version
+ */
+export function json(data: object): void {
+  console.log(JSON.stringify({ version: JSON_SCHEMA_VERSION, ...data }, null, 2));
+}
+
 /**
  * Display a success message
  */
 export function success(message: string): void {
-  console.log(chalk.green('✓') + ' ' + message);
+  print(chalk.green('✓') + ' ' + message);
 }
 
 /**
  * Display an error message
  */
 export function error(message: string): void {
-  console.log(chalk.red('✗') + ' ' + message);
+  print(chalk.red('✗') + ' ' + message);
 }
 
 /**
  * Display a warning message
  */
 export function warning(message: string): void {
-  console.log(chalk.yellow('⚠') + ' ' + message);
+  print(chalk.yellow('⚠') + ' ' + message);
 }
 
 /**
  * Display an info message
  */
 export function info(message: string): void {
-  console.log(chalk.blue('ℹ') + ' ' + message);
+  print(chalk.blue('ℹ') + ' ' + message);
 }
 
 /**
  * Display a message without icon
  */
 export function log(message: string): void {
-  console.log(message);
+  print(message);
 }
 
 /**
  * Create and start a spinner
  */
 export function spinner(message: string): Ora {
-  return ora(message).start();
+  return ora({ text: message, isSilent: jsonMode }).start();
 }
 
 /**
  * Display a separator line
  */
 export function separator(): void {
-  console.log(chalk.gray('─'.repeat(50)));
+  print(chalk.gray('─'.repeat(50)));
+}
+
+/**
+ * Display rows as a table with aligned columns
+ */
+export function table(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map(row => (row[i] || '').length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => (cell || '').padEnd(widths[i])).join('  ').trimEnd();
+
+  print(chalk.bold(formatRow(headers)));
+  rows.forEach(row => print(formatRow(row)));
 }
@@ -0,0 +1,95 @@
+import { PRRetarget } from '../types/index.js';
+import * as config from './config.js';
+import * as forge from './forge.js';
+import * as output from './output.js';
+
+const STACK_SECTION_START = '<!-- flowgit-stack-start -->';
+const STACK_SECTION_END = '<!-- flowgit-stack-end -->';
+
+/**
+ * Build the "Stack" section for a PR description.
+ * Lists the stack from its tip down to trunk, highlighting the given branch.
+ * The forge turns the #number (GitLab: !number) references into links.
+ */
+export function formatStackSection(
+  stack: Array<{ branch: string; prNumber: number | null }>,
+  currentBranch: string,
+  trunk: string,
+  referencePrefix: string = '#',
+): string {
+  const lines = [...stack].reverse().map(({ branch, prNumber }) => {
+    const label = prNumber ? `${referencePrefix}${prNumber} \`${branch}\`` : `\`${branch}\``;
+    return branch === currentBranch ? `- **${label}** 👈` : `- ${label}`;
+  });
+  lines.push(`- \`${trunk}\``);
+
+  return [
+    STACK_SECTION_START,
+    '### Stack',
+    '',
+    ...lines,
+    '',
+    '_Managed by flowgit_',
+    STACK_SECTION_END,
+  ].join('\n');
+}
+
+/**
+ * Insert the stack section into a PR body, replacing a previous one if present.
+ * The rest of the description is left untouched.
+ */
+export function upsertStackSection(body: string, section: string): string {
+  const start = body.indexOf(STACK_SECTION_START);
+  const end = body.indexOf(STACK_SECTION_END);
+
+  if (start !== -1 && end > start) {
+    return body.slice(0, start) + section + body.slice(end + STACK_SECTION_END.length);
+  }
+
+  const trimmed = body.trimEnd();
+  return trimmed ? `${trimmed}\n\n${section}\n` : `${section}\n`;
+}
+
+/**
+ * Point each PR's base branch at the branch's current parent.
+ * PRs with an unknown base are skipped. Returns the PRs that were retargeted.
+ */
+export async function retargetPRBases(
+  prs: Array<{ branch: string; number: number; baseRefName?: string }>,
+  trunk: string,
+): Promise<PRRetarget[]> {
+  const provider = forge.getForge();
+  const results = await Promise.all(prs.map(async (pr): Promise<PRRetarget | null> => {
+    if (!pr.baseRefName) {
+      return null;
+    }
+
+    const parent = config.getParentBranch(pr.branch) || trunk;
+    if (pr.baseRefName === parent) {
+      return null;
+    }
+
+    try {
+      await provider.updatePRBase(pr.number, parent);
+      return { branch: pr.branch, prNumber: pr.number, from: pr.baseRefName, to: parent };
+    } catch (error: any) {
+      output.warning(`Could not retarget PR ${provider.referencePrefix}${pr.number} to ${parent}: ${error.message}`);
+      return null;
+    }
+  }));
+
+  return results.filter((r): r is PRRetarget => r !== null);
+}
+
+/**
+ * Print the PRs whose base branch was changed, referenced as #number (GitLab: !number)
+ */
+export function printRetargetSummary(retargeted: PRRetarget[], referencePrefix: string = '#'): void {
+  if (retargeted.length === 0) {
+    return;
+  }
+
+  output.separator();
+  output.info(`Retargeted ${retargeted.length} PR(s):`);
+  retargeted.forEach(r => output.log(`  - ${referencePrefix}${r.prNumber} ${r.branch}: ${r.from} → ${r.to}`));
+}
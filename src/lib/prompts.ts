@@ -1,7 +1,54 @@
-import { select, input, confirm, checkbox, Separator } from '@inquirer/prompts';
-import { StagingChoice, GitStatusFile } from '../types/index.js';
+import { select, input, confirm, checkbox, editor, Separator } from '@inquirer/prompts';
+import { StagingChoice, GitStatusFile, InteractionMode } from '../types/index.js';
 import * as output from './output.js';
 
+let interactionMode: InteractionMode | null = null;
+
+/**
+ * Set how prompts are answered for the rest of the process
+ */
+export function setInteractionMode(mode: InteractionMode | null): void {
+  interactionMode = mode;
+}
+
+/**
+ * Get the current interaction mode. FGT_NONINTERACTIVE selects 'defaults'
+ * unless a mode was set explicitly (e.g. from --yes).
+ */
+export function getInteractionMode(): InteractionMode {
+  if (interactionMode) {
+    return interactionMode;
+  }
+  const env = process.env.FGT_NONINTERACTIVE;
+  if (env && env !== '0' && env !== 'false') {
+    return 'defaults';
+  }
+  return 'interactive';
+}
+
+/**
+ * Whether prompts must be answered without asking the user
+ */
+export function isNonInteractive(): boolean {
+  return getInteractionMode() !== 'interactive';
+}
+
+/**
+ * Fail a prompt that has no safe default in non-interactive mode
+ */
+function requireInteraction(what: string, hint?: string): void {
+  if (isNonInteractive()) {
+    throw new Error(`${what} requires an interactive prompt${hint ? `. ${hint}` : ''}`);
+  }
+}
+
+/**
+ * Render prompts on stderr while stdout is reserved for JSON
+ */
+function promptContext(): { output?: NodeJS.WritableStream } {
+  return output.isJsonMode() ? { output: process.stderr } : {};
+}
+
 /**
  * Handle prompt cancellation (ESC key or Ctrl+C)
  */
@@ -36,6 +83,11 @@ function handleCancellation(error: any): never {
  * Prompt for staging options when there are unstaged changes
  */
 export async function promptStagingChoice(): Promise<StagingChoice> {
+  if (getInteractionMode() === 'yes') {
+    return 'all';
+  }
+  requireInteraction('Choosing what to stage', 'Stage files first or pass --all');
+
   try {
     const choice = await select({
       message: 'You have unstaged changes. What would you like to do?',
@@ -44,7 +96,7 @@ export async function promptStagingChoice(): Promise<StagingChoice> {
         { name: 'Select files', value: 'select' },
         { name: 'Cancel', value: 'cancel' },
       ],
-    });
+    }, promptContext());
     return choice as StagingChoice;
   } catch (error) {
     return handleCancellation(error);
@@ -54,16 +106,43 @@ export async function promptStagingChoice(): Promise<StagingChoice> {
 /**
  * Prompt for file selection
  */
-export async function promptFileSelection(files: GitStatusFile[]): Promise<string[]> {
+export async function promptFileSelection(
+  files: GitStatusFile[],
+  message: string = 'Select files to stage:'
+): Promise<string[]> {
+  // Non-interactive: keep the files that start out checked
+  if (isNonInteractive()) {
+    return files.filter(f => f.staged).map(f => f.path);
+  }
+
   try {
     const selected = await checkbox({
-      message: 'Select files to stage:',
+      message,
       choices: files.map(f => ({
         name: `${f.status} ${f.path}`,
         value: f.path,
         checked: f.staged,
       })),
-    });
+    }, promptContext());
+    return selected;
+  } catch (error) {
+    return handleCancellation(error);
+  }
+}
+
+/**
+ * Prompt to pick any number of items, all selected by default
+ */
+export async function promptMultiSelection(message: string, items: string[]): Promise<string[]> {
+  if (isNonInteractive()) {
+    return items;
+  }
+
+  try {
+    const selected = await checkbox({
+      message,
+      choices: items.map(item => ({ name: item, value: item, checked: true })),
+    }, promptContext());
     return selected;
   } catch (error) {
     return handleCancellation(error);
@@ -74,6 +153,8 @@ export async function promptFileSelection(files: GitStatusFile[]): Promise<strin
  * Prompt for commit message
  */
 export async function promptCommitMessage(): Promise<string> {
+  requireInteraction('Entering a commit message', 'Pass one with -m');
+
   try {
     const message = await input({
       message: 'Enter commit message:',
@@ -83,7 +164,7 @@ export async function promptCommitMessage(): Promise<string> {
         }
         return true;
       },
-    });
+    }, promptContext());
     return message.trim();
   } catch (error) {
     return handleCancellation(error);
@@ -94,11 +175,15 @@ export async function promptCommitMessage(): Promise<string> {
  * Prompt for branch name confirmation
  */
 export async function promptBranchNameConfirmation(branchName: string): Promise<boolean> {
+  if (isNonInteractive()) {
+    return true;
+  }
+
   try {
     const confirmed = await confirm({
       message: `Create branch '${branchName}'?`,
       default: true,
-    });
+    }, promptContext());
     return confirmed;
   } catch (error) {
     return handleCancellation(error);
@@ -109,11 +194,18 @@ export async function promptBranchNameConfirmation(branchName: string): Promise<
  * Prompt for yes/no confirmation
  */
 export async function promptConfirmation(message: string, defaultValue: boolean = false): Promise<boolean> {
+  const mode = getInteractionMode();
+  if (mode !== 'interactive') {
+    const answer = mode === 'yes' || defaultValue;
+    output.info(`${message} ${answer ? 'yes' : 'no'}`);
+    return answer;
+  }
+
   try {
     const confirmed = await confirm({
       message,
       default: defaultValue,
-    });
+    }, promptContext());
     return confirmed;
   } catch (error) {
     return handleCancellation(error);
@@ -124,11 +216,18 @@ export async function promptConfirmation(message: string, defaultValue: boolean
  * Prompt for text input
  */
 export async function promptInput(message: string, defaultValue: string = ''): Promise<string> {
+  if (isNonInteractive()) {
+    if (!defaultValue) {
+      requireInteraction(`'${message}'`);
+    }
+    return defaultValue;
+  }
+
   try {
     const value = await input({
       message,
       default: defaultValue,
-    });
+    }, promptContext());
     return value;
   } catch (error) {
     return handleCancellation(error);
@@ -142,6 +241,8 @@ export async function promptBranchSelection(
   branches: Array<{ name: string; description: string }>,
   message: string = 'Select a branch:'
 ): Promise<string> {
+  requireInteraction('Selecting a branch');
+
   try {
     const branch = await select({
       message,
@@ -149,7 +250,7 @@ export async function promptBranchSelection(
         name: b.description,
         value: b.name,
       })),
-    });
+    }, promptContext());
     return branch;
   } catch (error) {
     return handleCancellation(error);
@@ -163,15 +264,38 @@ export async function promptTreeSelection(
   choices: Array<{ name: string; value: string } | Separator>,
   message: string = 'Select a branch:'
 ): Promise<string> {
+  requireInteraction('Selecting a branch', 'Pass the branch name as an argument');
+
   try {
     const branch = await select({
       message,
       choices,
       loop: false,
       pageSize: 20,
-    });
+    }, promptContext());
     return branch;
   } catch (error) {
     return handleCancellation(error);
   }
 }
+
+/**
+ * Prompt for text edited in the user's $EDITOR
+ */
+export async function promptEditor(message: string, defaultValue: string): Promise<string> {
+  // Non-interactive: leave the text unedited
+  if (isNonInteractive()) {
+    return defaultValue;
+  }
+
+  try {
+    const value = await editor({
+      message,
+      default: defaultValue,
+      waitForUserInput: false,
+    }, promptContext());
+    return value;
+  } catch (error) {
+    return handleCancellation(error);
+  }
+}
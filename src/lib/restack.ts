@@ -0,0 +1,223 @@
+import { RestackResult, RestackState } from '../types/index.js';
+import * as git from './git.js';
+import * as config from './config.js';
+import * as state from './state.js';
+import * as output from './output.js';
+
+/**
+ * Build a restack plan that rebases each branch onto the given parent, in order.
+ * Records the current SHA of every branch so the restack can be rolled back.
+ */
+export function createRestackPlan(
+  originalBranch: string,
+  steps: Array<{ branch: string; parent: string }>,
+): RestackState {
+  const plan: RestackState = {
+    originalBranch,
+    remaining: [],
+    parents: {},
+    originalShas: {},
+    originalBases: {},
+    originalParents: {},
+  };
+
+  for (const { branch, parent } of steps) {
+    plan.remaining.push(branch);
+    plan.parents[branch] = parent;
+    plan.originalShas[branch] = git.getSha(branch);
+    const base = config.getBranchBase(branch);
+    if (base) {
+      plan.originalBases[branch] = base;
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Check out a branch and rebase it onto its parent.
+ * If the branch has a recorded base, only the commits after it are moved
+ * (rebase --onto), so old parent commits that were amended or squash-merged
+ * are not replayed. Without a usable recorded base, the parent's SHA from before
+ * it was rewritten is used if known. The new base is recorded on success.
+ */
+export function rebaseOntoParent(branch: string, parent: string, previousParentSha?: string): void {
+  git.checkoutBranch(branch);
+
+  const base = [config.getBranchBase(branch), previousParentSha]
+    .find(candidate => candidate && git.isAncestor(candidate, branch));
+  if (base) {
+    git.rebaseOnto(parent, base);
+  } else {
+    git.rebase(parent);
+  }
+
+  recordBase(branch, parent);
+}
+
+/**
+ * Make sure a branch has a usable base before its parent changes,
+ * falling back to its fork point from the current parent.
+ */
+export function ensureBase(branch: string, parent: string): void {
+  const base = config.getBranchBase(branch);
+  if (base && git.isAncestor(base, branch)) {
+    return;
+  }
+  try {
+    config.setBranchBase(branch, git.getMergeBase(parent, branch));
+  } catch {
+    // No common history - a plain rebase will be used
+  }
+}
+
+/**
+ * Record the current tip of the parent as the base of a branch
+ */
+export function recordBase(branch: string, parent: string): void {
+  config.setBranchBase(branch, git.getSha(parent));
+}
+
+/**
+ * Rebase the remaining branches of a plan onto their parents.
+ * The plan is persisted before each rebase, so a run interrupted by conflicts
+ * can be resumed with 'fgt continue' or rolled back with 'fgt abort'.
+ * Returns false if a rebase stopped on conflicts.
+ */
+export function runRestackPlan(plan: RestackState): boolean {
+  while (plan.remaining.length > 0) {
+    const branch = plan.remaining[0];
+    const parent = plan.parents[branch];
+    state.saveRestackState(plan);
+
+    const spin = output.spinner(`Rebasing ${branch} onto ${parent}...`);
+    try {
+      rebaseOntoParent(branch, parent, plan.originalShas[parent]);
+      spin.succeed(`Rebased ${branch} onto ${parent}`);
+    } catch {
+      spin.fail(`Rebase of ${branch} onto ${parent} stopped on conflicts`);
+      return false;
+    }
+
+    plan.remaining.shift();
+  }
+
+  state.clearRestackState();
+  git.checkoutBranch(plan.originalBranch);
+  return true;
+}
+
+/**
+ * Explain how to proceed after a restack stopped on conflicts
+ */
+export function reportRestackConflict(plan: RestackState): void {
+  const pending = plan.remaining.slice(1);
+  output.error('Rebase conflicts. Resolve them and stage the files, then run \'fgt continue\'');
+  if (pending.length > 0) {
+    output.info(`Still to restack afterwards: ${pending.join(', ')}`);
+  }
+  output.info('Run \'fgt abort\' to undo the whole restack');
+}
+
+/**
+ * Rebase each branch onto its parent, in order (parents before children).
+ * A branch whose rebase conflicts is aborted and skipped along with its descendants;
+ * every branch is skipped if tracked files have uncommitted changes.
+ * previousShas holds the pre-rewrite SHAs of parents that were changed before this call.
+ */
+export function restackBranches(
+  steps: Array<{ branch: string; parent: string }>,
+  previousShas: Record<string, string> = {},
+): RestackResult[] {
+  // git rebase refuses to run over uncommitted changes to tracked files,
+  // which would otherwise show up as a conflict on every branch
+  if (git.hasTrackedChanges()) {
+    output.warning('Uncommitted changes: commit or stash them, then run \'fgt restack --all\' to restack');
+    return steps.map(({ branch, parent }) => ({ branch, parent, outcome: 'skipped' }));
+  }
+
+  const results: RestackResult[] = [];
+  const failed = new Set<string>();
+  const shas = { ...previousShas };
+
+  for (const { branch, parent } of steps) {
+    // Skip descendants of branches that failed to rebase
+    if (failed.has(parent)) {
+      failed.add(branch);
+      results.push({ branch, parent, outcome: 'skipped' });
+      continue;
+    }
+
+    // A branch still containing its parent's old tip (e.g. a removed branch) must be rebased
+    const staleParentSha = shas[parent] && shas[parent] !== git.getSha(parent) && git.isAncestor(shas[parent], branch);
+    if (git.isAncestor(parent, branch) && !staleParentSha) {
+      recordBase(branch, parent);
+      results.push({ branch, parent, outcome: 'up to date' });
+      continue;
+    }
+
+    const spin = output.spinner(`Rebasing ${branch} onto ${parent}...`);
+    try {
+      shas[branch] = git.getSha(branch);
+      rebaseOntoParent(branch, parent, shas[parent]);
+      spin.succeed(`Rebased ${branch} onto ${parent}`);
+      results.push({ branch, parent, outcome: 'rebased' });
+    } catch {
+      spin.fail(`Conflicts rebasing ${branch} onto ${parent}`);
+      try { git.abortRebase(); } catch {}
+      failed.add(branch);
+      results.push({ branch, parent, outcome: 'conflict' });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Rebase branches whose parent changed, together with all of their descendants,
+ * then return to returnBranch and print the outcome table.
+ * previousShas holds the pre-rewrite SHAs of parents that were changed before this call.
+ */
+export function restackDescendantsOf(
+  branches: string[],
+  previousShas: Record<string, string>,
+  returnBranch: string,
+): RestackResult[] {
+  const descendants = branches.flatMap(branch => [branch, ...config.getDescendants(branch)]);
+  if (descendants.length === 0) {
+    return [];
+  }
+
+  output.info(`Restacking ${descendants.length} branch(es)...`);
+  const results = restackBranches(
+    descendants.map(branch => ({ branch, parent: config.getParentBranch(branch) || config.getTrunkBranch() })),
+    previousShas,
+  );
+  git.checkoutBranch(returnBranch);
+  printRestackResults(results);
+  return results;
+}
+
+/**
+ * Print a per-branch outcome table and summary for restackBranches results
+ */
+export function printRestackResults(results: RestackResult[]): void {
+  output.separator();
+  output.table(
+    ['Branch', 'Parent', 'Outcome'],
+    results.map(r => [r.branch, r.parent, r.outcome]),
+  );
+  output.separator();
+
+  const conflicted = results.filter(r => r.outcome === 'conflict');
+  const skipped = results.filter(r => r.outcome === 'skipped');
+  const rebased = results.filter(r => r.outcome === 'rebased');
+
+  if (conflicted.length > 0) {
+    output.warning(
+      `${conflicted.length} branch(es) had conflicts and ${skipped.length} descendant(s) were skipped. ` +
+      'Restack them individually with \'fgt restack\'.'
+    );
+  }
+  output.success(`Restacked ${rebased.length} branch(es)`);
+}
@@ -0,0 +1,49 @@
+import * as git from './git.js';
+import * as config from './config.js';
+import * as output from './output.js';
+
+/**
+ * When removing a branch from a stack, update its children to point to its parent (adopt grandparent)
+ */
+export function adoptChildrenToGrandparent(branchToRemove: string, trunk: string): void {
+  const children = config.getChildren(branchToRemove);
+
+  if (children.length === 0) {
+    return;
+  }
+
+  // Get the parent of the branch being removed
+  const grandparent = config.getParentBranch(branchToRemove) || trunk;
+
+  // Update each child to point to grandparent
+  for (const child of children) {
+    config.setParentBranch(child, grandparent);
+    output.info(`  Updated ${child} to point to ${grandparent}`);
+  }
+}
+
+/**
+ * Delete a branch cleanly: adopt children, switch if needed, delete, untrack.
+ */
+export async function deleteBranchCleanly(branchName: string, currentBranch: string, trunk: string): Promise<void> {
+  // Don't delete if currently on this branch
+  if (branchName === currentBranch) {
+    git.checkoutBranch(trunk);
+  }
+
+  try {
+    // Before deleting, adopt children to grandparent
+    adoptChildrenToGrandparent(branchName, trunk);
+
+    // Try normal delete first, fall back to force delete for squash-merged branches
+    try {
+      git.deleteBranch(branchName);
+    } catch {
+      git.forceDeleteBranch(branchName);
+    }
+    config.removeTrackedBranch(branchName);
+    output.success(`Deleted ${branchName}`);
+  } catch (error: any) {
+    output.error(`Failed to delete ${branchName}: ${error.message}`);
+  }
+}
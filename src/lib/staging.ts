@@ -7,8 +7,18 @@ import * as output from './output.js';
  * Handle interactive staging of files.
  * Returns true if there are staged changes ready to commit, false otherwise.
  * May return early (via the caller checking the result) if the user cancels.
+ * With `all`, every change is staged without prompting.
  */
-export async function handleStaging(status: GitStatus): Promise<{ hasStagedChanges: boolean; cancelled: boolean }> {
+export async function handleStaging(
+  status: GitStatus,
+  options: { all?: boolean } = {}
+): Promise<{ hasStagedChanges: boolean; cancelled: boolean }> {
+  if (options.all && status.hasUnstagedChanges) {
+    git.stageAll();
+    output.success('Staged all changes');
+    return { hasStagedChanges: true, cancelled: false };
+  }
+
   // If files are already staged, proceed directly without prompting
   if (status.hasStagedChanges) {
     return { hasStagedChanges: true, cancelled: false };
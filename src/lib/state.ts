@@ -0,0 +1,65 @@
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { RestackState } from '../types/index.js';
+import * as git from './git.js';
+
+/**
+ * Resolved .git directories, keyed by kind and working directory
+ */
+const gitDirs = new Map<string, string>();
+
+function resolveGitDir(shared: boolean, cwd?: string): string {
+  const key = `${shared ? 'common' : 'worktree'}:${cwd ?? process.cwd()}`;
+  let gitDir = gitDirs.get(key);
+  if (!gitDir) {
+    gitDir = shared ? git.getCommonGitDir(cwd) : git.getGitDir(cwd);
+    gitDirs.set(key, gitDir);
+  }
+  return gitDir;
+}
+
+/**
+ * Get the directory where flowgit keeps the state of the current worktree, such as
+ * an interrupted restack (.git/flowgit, or .git/worktrees/<name>/flowgit in a linked worktree)
+ */
+export function getStateDir(cwd?: string): string {
+  return join(resolveGitDir(false, cwd), 'flowgit');
+}
+
+/**
+ * Get the directory where flowgit keeps state shared by all worktrees,
+ * such as branch metadata (.git/flowgit)
+ */
+export function getSharedStateDir(cwd?: string): string {
+  return join(resolveGitDir(true, cwd), 'flowgit');
+}
+
+function getRestackStatePath(cwd?: string): string {
+  return join(getStateDir(cwd), 'restack-state.json');
+}
+
+/**
+ * Load the plan of an interrupted restack, if any
+ */
+export function loadRestackState(cwd?: string): RestackState | null {
+  const path = getRestackStatePath(cwd);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Persist the plan of a restack so it can be resumed or aborted
+ */
+export function saveRestackState(state: RestackState, cwd?: string): void {
+  mkdirSync(getStateDir(cwd), { recursive: true });
+  writeFileSync(getRestackStatePath(cwd), JSON.stringify(state, null, 2));
+}
+
+/**
+ * Remove the persisted restack plan
+ */
+export function clearRestackState(cwd?: string): void {
+  try { unlinkSync(getRestackStatePath(cwd)); } catch {}
+}
@@ -17,6 +17,143 @@ export interface PRInfo {
   url: string;
   state: string;
   merged: boolean;
+  baseRefName?: string;
+  isDraft?: boolean;
+}
+
+/** Reviewers, labels, assignees and milestone to apply to a PR */
+export interface PRMetadata {
+  reviewers: string[];
+  labels: string[];
+  assignees: string[];
+  milestone?: string;
+}
+
+/** A CI check on a PR's head commit (status contexts are mapped onto check runs) */
+export interface PRCheck {
+  name: string;
+  status: string;
+  conclusion: string | null;
+}
+
+/** Everything fgt shows about a PR, fetched in bulk through the GraphQL API */
+export interface PRDetails extends PRInfo {
+  baseRefName: string;
+  headRefName: string;
+  isDraft: boolean;
+  reviewDecision: string | null;
+  body: string;
+  checks: PRCheck[];
+  comments: {
+    total: number;
+    resolved: number;
+  };
+}
+
+/** Which hosting service PRs live on */
+export type ForgeKind = 'github' | 'gitlab';
+
+/** Open PRs that involve the current user */
+export type PRSearch = 'review-requested' | 'authored';
+
+/**
+ * Remote operations on the hosting service (GitHub, GitLab).
+ * GitLab merge requests are reported as PRs, numbered by their iid.
+ */
+export interface ForgeProvider {
+  readonly kind: ForgeKind;
+  /** Error shown when the user is not authenticated, with how to fix it */
+  readonly authError: string;
+  /** Prefix that links a PR number in descriptions (#12 on GitHub, !12 on GitLab) */
+  readonly referencePrefix: string;
+  isAuthenticated(): Promise<boolean>;
+  getPRForBranch(branchName: string): Promise<PRInfo | null>;
+  /** Most recent PR (in any state) of each branch; branches without one are left out */
+  getPRsForBranches(branches: string[]): Promise<Map<string, PRDetails>>;
+  /** Open PRs for each search, one list per search */
+  searchPRs(searches: PRSearch[]): Promise<PRDetails[][]>;
+  createPR(
+    title: string,
+    body: string,
+    baseBranch: string,
+    options?: { head?: string; draft?: boolean; metadata?: PRMetadata },
+  ): Promise<PRInfo>;
+  updatePRBody(prNumber: number, body: string): Promise<void>;
+  addPRMetadata(prNumber: number, metadata: PRMetadata): Promise<void>;
+  updatePRBase(prNumber: number, baseBranch: string): Promise<void>;
+  markPRReady(prNumber: number): Promise<void>;
+  closePR(prNumber: number): Promise<void>;
+  getPRBranchName(prNumber: number): Promise<string>;
+  openPR(prNumber: number): Promise<void>;
+  /** Open the page for creating a PR from the current branch */
+  openNewPR(): Promise<void>;
+}
+
+export interface PRRetarget {
+  branch: string;
+  prNumber: number;
+  from: string;
+  to: string;
+}
+
+/** How sync classified a tracked branch, in the order the checks run */
+export type SyncStatus =
+  | 'merged-locally'
+  | 'pr-merged'
+  | 'pr-closed'
+  | 'squash-detected'
+  | 'remote-deleted'
+  | 'fast-forwarded'
+  | 'diverged'
+  | 'up-to-date';
+
+export interface SyncClassification {
+  branch: string;
+  status: SyncStatus;
+  /** Evidence for the status, e.g. "#12 merged" or "pulled 2 commit(s)" */
+  detail: string;
 }
 
 export type StagingChoice = 'all' | 'select' | 'cancel';
+
+/**
+ * How prompts are answered: by the user, with each prompt's default,
+ * or with defaults and every confirmation accepted
+ */
+export type InteractionMode = 'interactive' | 'defaults' | 'yes';
+
+export interface RestackState {
+  /** Branch to return to once the restack completes */
+  originalBranch: string;
+  /** Branches still to rebase, in order; the first one is in progress after a conflict */
+  remaining: string[];
+  /** Branch to rebase each planned branch onto */
+  parents: Record<string, string>;
+  /** Commit each planned branch pointed at before the restack started */
+  originalShas: Record<string, string>;
+  /** Base SHA each planned branch had recorded before the restack started */
+  originalBases: Record<string, string>;
+  /** Parent config to restore on abort, for branches that were reparented */
+  originalParents: Record<string, string>;
+}
+
+export type RestackOutcome = 'rebased' | 'up to date' | 'conflict' | 'skipped';
+
+export interface RestackResult {
+  branch: string;
+  parent: string;
+  outcome: RestackOutcome;
+}
+
+export interface BranchMetadata {
+  parent?: string;
+  /** Parent commit the branch was forked from (or last restacked onto) */
+  base?: string;
+  prNumber?: number;
+}
+
+export interface Metadata {
+  version: number;
+  tracked: string[];
+  branches: Record<string, BranchMetadata>;
+}
@@ -0,0 +1,112 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt abort", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  it("errors when no restack is in progress", async () => {
+    await expect(runCommand(["abort"], testRepo)).rejects.toThrow(
+      "process.exit(1)",
+    );
+  });
+
+  it("rolls every rebased branch back to its pre-restack SHA", async () => {
+    // Arrange - main → branch-a → branch-b, where branch-b conflicts with main
+    testRepo.writeFile("shared.ts", "base");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "Base"');
+
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("shared.ts", "b");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout main");
+    testRepo.writeFile("shared.ts", "main");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "Main"');
+
+    testRepo.git("checkout branch-a");
+    testRepo.git('config flowgit.tracked "branch-a,branch-b"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+
+    const aBefore = testRepo.git("rev-parse branch-a");
+    const bBefore = testRepo.git("rev-parse branch-b");
+
+    await expect(
+      runCommand(["restack", "main"], testRepo, { prompts: { confirmed: true } }),
+    ).rejects.toThrow("process.exit(1)");
+
+    // branch-a was already rebased onto main
+    expect(testRepo.git("rev-parse branch-a")).not.toBe(aBefore);
+
+    // Act
+    await runCommand(["abort"], testRepo);
+
+    // Assert
+    expect(testRepo.currentBranch()).toBe("branch-a");
+    expect(testRepo.git("rev-parse branch-a")).toBe(aBefore);
+    expect(testRepo.git("rev-parse branch-b")).toBe(bBefore);
+    expect(testRepo.isClean()).toBe(true);
+    expect(testRepo.fileExists(".git/flowgit/restack-state.json")).toBe(false);
+  });
+
+  it("restores the previous parent of a reparented branch", async () => {
+    // Arrange - branch-b reparented from branch-a onto main, conflicting with main
+    testRepo.writeFile("shared.ts", "base");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "Base"');
+
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("shared.ts", "b");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout main");
+    testRepo.writeFile("shared.ts", "main");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "Main"');
+
+    testRepo.git("checkout branch-b");
+    testRepo.git('config flowgit.tracked "branch-a,branch-b"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+
+    await expect(runCommand(["restack", "main"], testRepo)).rejects.toThrow(
+      "process.exit(1)",
+    );
+    expect(testRepo.parentBranch("branch-b")).toBe("main");
+
+    // Act
+    await runCommand(["abort"], testRepo);
+
+    // Assert
+    expect(testRepo.parentBranch("branch-b")).toBe("branch-a");
+    expect(testRepo.currentBranch()).toBe("branch-b");
+  });
+});
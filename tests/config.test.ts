@@ -0,0 +1,140 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+import { getTrunkBranch } from "../src/lib/config";
+
+describe("fgt config", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  describe("trunk", () => {
+    it("sets the trunk branch", async () => {
+      testRepo.git("branch develop");
+
+      await runCommand(["config", "trunk", "develop"], testRepo);
+
+      expect(testRepo.git("config --get flowgit.trunk")).toBe("develop");
+    });
+
+    it("errors when the branch does not exist", async () => {
+      await expect(
+        runCommand(["config", "trunk", "nonexistent"], testRepo),
+      ).rejects.toThrow("process.exit(1)");
+    });
+
+    it("fails like git config on invalid keys", async () => {
+      // git config exits with 2 for a key without a section
+      await expect(
+        runCommand(["config", "unknown", "value"], testRepo),
+      ).rejects.toThrow("process.exit(2)");
+    });
+
+    it("passes names inherited from Object to git config", async () => {
+      await expect(
+        runCommand(["config", "constructor"], testRepo),
+      ).rejects.toThrow("process.exit(1)");
+    });
+
+    it("uses the configured trunk in com", async () => {
+      testRepo.git("branch develop");
+      testRepo.git("checkout -b feature");
+
+      await runCommand(["config", "trunk", "develop"], testRepo);
+      await runCommand(["com"], testRepo);
+
+      expect(testRepo.currentBranch()).toBe("develop");
+    });
+  });
+
+  describe("trunk resolution", () => {
+    it("defaults to main", () => {
+      expect(getTrunkBranch(testRepo.path)).toBe("main");
+    });
+
+    it("prefers flowgit.trunk", () => {
+      testRepo.git("branch develop");
+      testRepo.git("config flowgit.trunk develop");
+
+      expect(getTrunkBranch(testRepo.path)).toBe("develop");
+    });
+
+    it("detects master when main does not exist", () => {
+      testRepo.git("branch -m main master");
+
+      expect(getTrunkBranch(testRepo.path)).toBe("master");
+    });
+
+    it("detects the remote default branch from origin/HEAD", () => {
+      testRepo.createRemote();
+      testRepo.git("checkout -b develop");
+      testRepo.git("push -u origin develop");
+      testRepo.git("remote set-head origin develop");
+
+      expect(getTrunkBranch(testRepo.path)).toBe("develop");
+    });
+  });
+
+  describe("submit.draft", () => {
+    it("sets the draft default", async () => {
+      await runCommand(["config", "submit.draft", "true"], testRepo);
+
+      expect(testRepo.git("config --get flowgit.submit.draft")).toBe("true");
+    });
+
+    it("rejects values other than true and false", async () => {
+      await expect(
+        runCommand(["config", "submit.draft", "yes"], testRepo),
+      ).rejects.toThrow("process.exit(1)");
+    });
+  });
+
+  describe("forge", () => {
+    it("sets the hosting service", async () => {
+      await runCommand(["config", "forge", "gitlab"], testRepo);
+
+      expect(testRepo.git("config --get flowgit.forge")).toBe("gitlab");
+    });
+
+    it("shows the service detected from the origin URL", async () => {
+      testRepo.git("remote add origin git@gitlab.example.com:group/project.git");
+
+      await runCommand(["config", "forge"], testRepo);
+
+      expect(console.log).toHaveBeenCalledWith("gitlab");
+    });
+
+    it("rejects unknown services", async () => {
+      await expect(
+        runCommand(["config", "forge", "bitbucket"], testRepo),
+      ).rejects.toThrow("process.exit(1)");
+    });
+  });
+
+  describe("git config passthrough", () => {
+    it("sets other keys with git config", async () => {
+      await runCommand(["config", "user.email", "dev@example.com"], testRepo);
+
+      expect(testRepo.git("config --get user.email")).toBe("dev@example.com");
+    });
+  });
+
+  describe("submit defaults", () => {
+    it("sets default reviewers", async () => {
+      await runCommand(["config", "submit.reviewers", "alice,bob"], testRepo);
+
+      expect(testRepo.git("config --get flowgit.submit.reviewers")).toBe("alice,bob");
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt continue", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * Stack main → branch-a with two children, branch-b and branch-d,
+   * where branch-b conflicts with a new commit on branch-a.
+   */
+  function createConflictingStack(): void {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("shared.ts", "a");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("shared.ts", "b");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout branch-a");
+    testRepo.git("checkout -b branch-d");
+    testRepo.writeFile("d.ts", "d");
+    testRepo.git("add d.ts");
+    testRepo.git('commit -m "D"');
+
+    testRepo.git("checkout branch-a");
+    testRepo.writeFile("shared.ts", "a v2");
+    testRepo.git("add shared.ts");
+    testRepo.git('commit -m "A v2"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-d"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-d.parent "branch-a"');
+  }
+
+  it("errors when no restack is in progress", async () => {
+    await expect(runCommand(["continue"], testRepo)).rejects.toThrow(
+      "process.exit(1)",
+    );
+  });
+
+  it("persists the remaining plan when a child rebase conflicts", async () => {
+    createConflictingStack();
+
+    await expect(
+      runCommand(["restack", "main"], testRepo, { prompts: { confirmed: true } }),
+    ).rejects.toThrow("process.exit(1)");
+
+    const state = JSON.parse(testRepo.readFile(".git/flowgit/restack-state.json"));
+    expect(state.originalBranch).toBe("branch-a");
+    expect(state.remaining).toEqual(["branch-b", "branch-d"]);
+    expect(state.parents["branch-d"]).toBe("branch-a");
+  });
+
+  it("resumes restacking remaining descendants after conflicts are resolved", async () => {
+    createConflictingStack();
+
+    await expect(
+      runCommand(["restack", "main"], testRepo, { prompts: { confirmed: true } }),
+    ).rejects.toThrow("process.exit(1)");
+
+    // Resolve the conflict
+    testRepo.writeFile("shared.ts", "resolved");
+    testRepo.git("add shared.ts");
+
+    // Act
+    await runCommand(["continue"], testRepo);
+
+    // Assert - whole chain restacked and back on the original branch
+    expect(testRepo.currentBranch()).toBe("branch-a");
+    expect(testRepo.git("merge-base --is-ancestor branch-a branch-b && echo yes")).toBe("yes");
+    expect(testRepo.git("merge-base --is-ancestor branch-a branch-d && echo yes")).toBe("yes");
+    expect(testRepo.git("show branch-b:shared.ts")).toBe("resolved");
+    expect(testRepo.fileExists(".git/flowgit/restack-state.json")).toBe(false);
+  });
+
+  it("refuses to start a new restack while one is in progress", async () => {
+    createConflictingStack();
+
+    await expect(
+      runCommand(["restack", "main"], testRepo, { prompts: { confirmed: true } }),
+    ).rejects.toThrow("process.exit(1)");
+    testRepo.git("rebase --abort");
+
+    mockExecutor.clearCalls();
+    await expect(runCommand(["restack", "main"], testRepo)).rejects.toThrow(
+      "process.exit(1)",
+    );
+    expect(mockExecutor.getCallsMatching("git rebase").length).toBe(0);
+  });
+});
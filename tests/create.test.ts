@@ -2,6 +2,7 @@ import { TestRepository } from "./helpers/testRepo";
 import { runCommand } from "./helpers/runCommand";
 import { MockExecutor } from "./helpers/mockExecutor";
 import { setExecutor, resetExecutor } from "../src/lib/executor";
+import { setInteractionMode } from "../src/lib/prompts";
 
 describe("fgt create", () => {
   let testRepo: TestRepository;
@@ -263,6 +264,21 @@ describe("fgt create", () => {
       expect(testRepo.parentBranch("first-feature")).toBe("main");
     });
 
+    it("records the parent commit as base", async () => {
+      // Arrange
+      const mainSha = testRepo.git("rev-parse main");
+      testRepo.writeFile("test.txt", "content");
+      testRepo.git("add test.txt");
+
+      // Act
+      await runCommand(["create"], testRepo, {
+        prompts: { message: "First feature" },
+      });
+
+      // Assert
+      expect(testRepo.branchBase("first-feature")).toBe(mainSha);
+    });
+
     it("creates stack of branches", async () => {
       // Create first branch
       testRepo.writeFile("api.ts", "api");
@@ -494,4 +510,57 @@ describe("fgt create", () => {
       expect(branch).not.toMatch(/-$/); // Should not end with hyphen
     });
   });
+
+  describe("non-interactive mode", () => {
+    afterEach(() => {
+      setInteractionMode(null);
+      delete process.env.FGT_NONINTERACTIVE;
+    });
+
+    it("creates a branch from -m and --all without prompting", async () => {
+      // Arrange
+      setInteractionMode("defaults");
+      testRepo.writeFile("docs.md", "docs");
+
+      // Act
+      await runCommand(["create", "--message", "Add docs", "--all"], testRepo);
+
+      // Assert
+      expect(testRepo.currentBranch()).toBe("add-docs");
+      expect(testRepo.lastCommitMessage()).toBe("Add docs");
+      expect(testRepo.isClean()).toBe(true);
+    });
+
+    it("fails without a message when FGT_NONINTERACTIVE is set", async () => {
+      process.env.FGT_NONINTERACTIVE = "1";
+      testRepo.writeFile("test.txt", "content");
+      testRepo.git("add test.txt");
+
+      await expect(runCommand(["create"], testRepo)).rejects.toThrow("Pass one with -m");
+      expect(testRepo.currentBranch()).toBe("main");
+    });
+
+    it("fails on unstaged changes without --all", async () => {
+      process.env.FGT_NONINTERACTIVE = "1";
+      testRepo.writeFile("test.txt", "content");
+
+      await expect(runCommand(["create", "--message", "Add test"], testRepo)).rejects.toThrow("pass --all");
+    });
+
+    it("uses the confirmation default", async () => {
+      setInteractionMode("defaults");
+
+      await runCommand(["create", "--message", "Empty branch"], testRepo);
+
+      expect(testRepo.branchExists("empty-branch")).toBe(false);
+    });
+
+    it("accepts confirmations with --yes", async () => {
+      setInteractionMode("yes");
+
+      await runCommand(["create", "--message", "Empty branch"], testRepo);
+
+      expect(testRepo.currentBranch()).toBe("empty-branch");
+    });
+  });
 });
@@ -0,0 +1,137 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+import { setInteractionMode } from "../src/lib/prompts";
+
+describe("fgt delete", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+    mockExecutor.onCommand("gh auth status").returns(() => {
+      throw new Error("not logged in");
+    });
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * main → branch-a → branch-b → branch-c
+   */
+  function createStack(): void {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+  }
+
+  it("deletes the current branch and switches to its parent", async () => {
+    createStack();
+    testRepo.git("checkout branch-c");
+
+    // Act
+    await runCommand(["delete"], testRepo, { prompts: { confirmed: true } });
+
+    // Assert
+    expect(testRepo.branchExists("branch-c")).toBe(false);
+    expect(testRepo.trackedBranches()).toEqual(["branch-a", "branch-b"]);
+    expect(testRepo.currentBranch()).toBe("branch-b");
+    expect(testRepo.metadata().branches["branch-c"]).toBeUndefined();
+  });
+
+  it("adopts children and restacks them without the deleted commits", async () => {
+    createStack();
+    testRepo.git("checkout main");
+
+    await runCommand(["delete", "branch-b"], testRepo, { prompts: { confirmed: true } });
+
+    expect(testRepo.parentBranch("branch-c")).toBe("branch-a");
+    expect(testRepo.git("log --format=%s branch-a..branch-c")).toBe("C");
+    expect(testRepo.currentBranch()).toBe("main");
+  });
+
+  it("keeps adopted children in place when restack is declined", async () => {
+    createStack();
+    testRepo.git("checkout main");
+    const childSha = testRepo.git("rev-parse branch-c");
+
+    await runCommand(["delete", "branch-b", "--force"], testRepo, { prompts: { confirmed: false } });
+
+    expect(testRepo.branchExists("branch-b")).toBe(false);
+    expect(testRepo.parentBranch("branch-c")).toBe("branch-a");
+    expect(testRepo.git("rev-parse branch-c")).toBe(childSha);
+  });
+
+  it("does nothing when not confirmed", async () => {
+    createStack();
+
+    await runCommand(["delete", "branch-b"], testRepo, { prompts: { confirmed: false } });
+
+    expect(testRepo.branchExists("branch-b")).toBe(true);
+    expect(testRepo.trackedBranches()).toContain("branch-b");
+  });
+
+  it("closes the open PR when asked", async () => {
+    createStack();
+    mockExecutor.reset();
+    mockExecutor.onCommand("gh auth status").returns("");
+    mockExecutor.onCommand("gh pr list --head branch-c").returns(
+      JSON.stringify([{ number: 7, title: "C", url: "https://github.com/o/r/pull/7", state: "OPEN", mergedAt: null }]),
+    );
+    mockExecutor.onCommand("gh pr close").returns("");
+
+    await runCommand(["delete", "branch-c"], testRepo, { prompts: { confirmed: true } });
+
+    expect(mockExecutor.getCallsMatching("gh pr close 7")).toHaveLength(1);
+  });
+
+  it("deletes and closes the PR without prompting with --yes", async () => {
+    createStack();
+    mockExecutor.reset();
+    mockExecutor.onCommand("gh auth status").returns("");
+    mockExecutor.onCommand("gh pr list --head branch-c").returns(
+      JSON.stringify([{ number: 7, title: "C", url: "https://github.com/o/r/pull/7", state: "OPEN", mergedAt: null }]),
+    );
+    mockExecutor.onCommand("gh pr close").returns("");
+    setInteractionMode("yes");
+
+    try {
+      await runCommand(["delete", "branch-c"], testRepo, { prompts: { confirmed: false } });
+    } finally {
+      setInteractionMode(null);
+    }
+
+    expect(testRepo.branchExists("branch-c")).toBe(false);
+    expect(mockExecutor.getCallsMatching("gh pr close 7")).toHaveLength(1);
+  });
+
+  it("errors on trunk", async () => {
+    await expect(runCommand(["delete", "main", "--force"], testRepo)).rejects.toThrow("process.exit(1)");
+  });
+
+  it("errors when the branch does not exist", async () => {
+    await expect(runCommand(["delete", "nonexistent", "--force"], testRepo)).rejects.toThrow("process.exit(1)");
+  });
+});
@@ -52,7 +52,7 @@ describe("fgt down", () => {
     );
   });
 
-  it("shows error when parent is trunk", async () => {
+  it("moves to trunk from the bottom of the stack", async () => {
     // Arrange - create branch with main as parent
     testRepo.git("checkout -b feature-branch");
     testRepo.writeFile("feature.ts", "feature code");
@@ -62,10 +62,11 @@ describe("fgt down", () => {
     testRepo.git('config flowgit.tracked "feature-branch"');
     testRepo.git('config flowgit.branch.feature-branch.parent "main"');
 
-    // Act & Assert - can't go down from branch that points to trunk
-    await expect(runCommand(["down"], testRepo)).rejects.toThrow(
-      "process.exit(1)",
-    );
+    // Act
+    await runCommand(["down"], testRepo);
+
+    // Assert
+    expect(testRepo.currentBranch()).toBe("main");
   });
 
   it("navigates through multi-level stack", async () => {
@@ -99,7 +100,9 @@ describe("fgt down", () => {
     await runCommand(["down"], testRepo);
     expect(testRepo.currentBranch()).toBe("branch-a");
 
-    // Try to go down from a (parent is main)
+    // Navigate from a -> main, then stop at trunk
+    await runCommand(["down"], testRepo);
+    expect(testRepo.currentBranch()).toBe("main");
     await expect(runCommand(["down"], testRepo)).rejects.toThrow(
       "process.exit(1)",
     );
@@ -120,4 +123,85 @@ describe("fgt down", () => {
       "process.exit(1)",
     );
   });
+
+  it("moves several levels with a step count", async () => {
+    // Arrange - main → a → b → c
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+
+    // Act
+    await runCommand(["down", "2"], testRepo);
+
+    // Assert
+    expect(testRepo.currentBranch()).toBe("branch-a");
+  });
+
+  it("stops at trunk when the step count is too large", async () => {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+
+    await runCommand(["down", "10"], testRepo);
+
+    expect(testRepo.currentBranch()).toBe("main");
+  });
+
+  it("errors on an invalid step count", async () => {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+
+    await expect(runCommand(["down", "0"], testRepo)).rejects.toThrow(
+      "process.exit(1)",
+    );
+  });
 });
@@ -0,0 +1,43 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RealCommandExecutor } from "../src/lib/executor";
+
+describe("command executor", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "fgt-executor-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs async commands and trims their output", async () => {
+    const executor = new RealCommandExecutor();
+
+    await expect(executor.execAsync("echo hello")).resolves.toBe("hello");
+  });
+
+  it("rejects when an async command fails", async () => {
+    const executor = new RealCommandExecutor();
+
+    await expect(executor.execAsync("exit 3")).rejects.toThrow("Command failed: exit 3");
+  });
+
+  it("runs at most maxConcurrent commands at once", async () => {
+    // Arrange - each command records how many commands are running while it sleeps
+    const executor = new RealCommandExecutor(2);
+    const command = (i: number) =>
+      `touch running-${i} && sleep 0.3 && ls | grep -c running- >> counts; rm running-${i}`;
+
+    // Act
+    await Promise.all([1, 2, 3, 4, 5].map(i => executor.execAsync(command(i), { cwd: dir })));
+
+    // Assert
+    const counts = readFileSync(join(dir, "counts"), "utf-8").trim().split("\n").map(Number);
+    expect(counts).toHaveLength(5);
+    expect(Math.max(...counts)).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,120 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt fold", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * main → branch-a → branch-b (two commits) → branch-c
+   */
+  function createStack(): void {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b1.ts", "b1");
+    testRepo.git("add b1.ts");
+    testRepo.git('commit -m "B1"');
+    testRepo.writeFile("b2.ts", "b2");
+    testRepo.git("add b2.ts");
+    testRepo.git('commit -m "B2"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+  }
+
+  it("squashes the branch into its parent", async () => {
+    createStack();
+    testRepo.git("checkout branch-b");
+
+    // Act
+    await runCommand(["fold"], testRepo);
+
+    // Assert
+    expect(testRepo.git("log --format=%s main..branch-a")).toBe("B1\nA");
+    expect(testRepo.git("show --name-only --format= branch-a")).toBe("b1.ts\nb2.ts");
+    expect(testRepo.currentBranch()).toBe("branch-a");
+  });
+
+  it("keeps individual commits with --keep", async () => {
+    createStack();
+    testRepo.git("checkout branch-b");
+    const branchSha = testRepo.git("rev-parse branch-b");
+
+    await runCommand(["fold", "--keep"], testRepo);
+
+    expect(testRepo.git("rev-parse branch-a")).toBe(branchSha);
+    expect(testRepo.git("log --format=%s main..branch-a")).toBe("B2\nB1\nA");
+  });
+
+  it("deletes and untracks the folded branch", async () => {
+    createStack();
+    testRepo.git("checkout branch-b");
+
+    await runCommand(["fold"], testRepo);
+
+    expect(testRepo.branchExists("branch-b")).toBe(false);
+    expect(testRepo.trackedBranches()).toEqual(["branch-a", "branch-c"]);
+  });
+
+  it("reparents and restacks children onto the parent", async () => {
+    createStack();
+    testRepo.git("checkout branch-b");
+
+    await runCommand(["fold"], testRepo);
+
+    expect(testRepo.parentBranch("branch-c")).toBe("branch-a");
+    expect(testRepo.git("log --format=%s branch-a..branch-c")).toBe("C");
+  });
+
+  it("errors when the parent is trunk", async () => {
+    createStack();
+    testRepo.git("checkout branch-a");
+
+    await expect(runCommand(["fold"], testRepo)).rejects.toThrow("process.exit(1)");
+    expect(testRepo.branchExists("branch-a")).toBe(true);
+  });
+
+  it("errors when the branch is behind its parent", async () => {
+    createStack();
+    testRepo.git("checkout branch-a");
+    testRepo.writeFile("a2.ts", "a2");
+    testRepo.git("add a2.ts");
+    testRepo.git('commit -m "A2"');
+    testRepo.git("checkout branch-b");
+
+    await expect(runCommand(["fold"], testRepo)).rejects.toThrow("process.exit(1)");
+    expect(testRepo.branchExists("branch-b")).toBe(true);
+  });
+
+  it("errors with uncommitted changes", async () => {
+    createStack();
+    testRepo.git("checkout branch-b");
+    testRepo.writeFile("dirty.ts", "dirty");
+
+    await expect(runCommand(["fold"], testRepo)).rejects.toThrow("process.exit(1)");
+  });
+});
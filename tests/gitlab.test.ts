@@ -0,0 +1,270 @@
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { setJsonMode } from "../src/lib/output";
+import { detectForgeKind, getForge } from "../src/lib/forge";
+import { parseRemoteUrl } from "../src/lib/gitlab";
+import { DEFAULT_MAX_CONCURRENT } from "../src/lib/executor";
+
+interface StubRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+type Route = (request: StubRequest) => any;
+
+/**
+ * Local stand-in for the GitLab REST API.
+ * Routes are keyed by "METHOD /path" without the /api/v4 prefix or query string.
+ */
+class StubGitLab {
+  readonly requests: StubRequest[] = [];
+  readonly routes: Record<string, Route> = {};
+  /** Delay before each response, to let concurrent requests overlap */
+  delayMs = 0;
+  /** Most requests handled at the same time */
+  maxInFlight = 0;
+  private inFlight = 0;
+  private server!: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer(async (req, res) => {
+      const request: StubRequest = {
+        method: req.method!,
+        path: req.url!.replace(/^\/api\/v4/, ""),
+        body: await readBody(req),
+      };
+      this.requests.push(request);
+
+      const route = this.routes[`${request.method} ${request.path.split("?")[0]}`];
+      res.setHeader("Content-Type", "application/json");
+      if (!route) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ message: "404 Not Found" }));
+        return;
+      }
+      this.inFlight++;
+      this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+      this.inFlight--;
+      res.end(JSON.stringify(route(request)));
+    });
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  requestsTo(method: string, path: string): StubRequest[] {
+    return this.requests.filter(r => r.method === method && r.path.split("?")[0] === path);
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  let data = "";
+  for await (const chunk of req) {
+    data += chunk;
+  }
+  return data ? JSON.parse(data) : null;
+}
+
+const PROJECT = "/projects/group%2Fproject";
+
+function mergeRequest(iid: number, fields: Record<string, any> = {}): any {
+  return {
+    iid,
+    title: `MR !${iid}`,
+    web_url: `http://gitlab.test/group/project/-/merge_requests/${iid}`,
+    state: "opened",
+    draft: false,
+    source_branch: `branch-${iid}`,
+    target_branch: "main",
+    description: "",
+    user_notes_count: 0,
+    ...fields,
+  };
+}
+
+describe("GitLab forge", () => {
+  let testRepo: TestRepository;
+  let gitlab: StubGitLab;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    testRepo = TestRepository.create();
+    gitlab = new StubGitLab();
+    const url = await gitlab.start();
+    testRepo.git(`remote add origin ${url}/group/project.git`);
+    testRepo.git("config flowgit.forge gitlab");
+    process.env.GITLAB_TOKEN = "test-token";
+    gitlab.routes["GET /user"] = () => ({ id: 7, username: "flo" });
+
+    originalCwd = process.cwd();
+    process.chdir(testRepo.path);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    delete process.env.GITLAB_TOKEN;
+    setJsonMode(false);
+    await gitlab.stop();
+    testRepo.destroy();
+  });
+
+  describe("remote detection", () => {
+    it("parses SSH and HTTPS remote URLs", () => {
+      expect(parseRemoteUrl("git@gitlab.com:group/sub/project.git")).toEqual({
+        baseUrl: "https://gitlab.com",
+        host: "gitlab.com",
+        projectPath: "group/sub/project",
+      });
+      expect(parseRemoteUrl("https://gitlab.example.com:8443/group/project")).toEqual({
+        baseUrl: "https://gitlab.example.com:8443",
+        host: "gitlab.example.com",
+        projectPath: "group/project",
+      });
+    });
+
+    it("detects GitLab from the remote host", () => {
+      expect(detectForgeKind("git@gitlab.example.com:group/project.git")).toBe("gitlab");
+      expect(detectForgeKind("git@github.com:group/gitlab-tools.git")).toBe("github");
+      expect(detectForgeKind(null)).toBe("github");
+    });
+  });
+
+  it("sends the token and reports authentication", async () => {
+    await expect(getForge().isAuthenticated()).resolves.toBe(true);
+    delete gitlab.routes["GET /user"];
+    await expect(getForge().isAuthenticated()).resolves.toBe(false);
+  });
+
+  it("maps merge requests with their pipeline, approvals and discussions", async () => {
+    // Arrange
+    gitlab.routes[`GET ${PROJECT}/merge_requests`] = ({ path }) =>
+      path.includes("source_branch=feature") ? [mergeRequest(4, { source_branch: "feature" })] : [];
+    gitlab.routes[`GET ${PROJECT}/merge_requests/4`] = () =>
+      mergeRequest(4, {
+        source_branch: "feature",
+        description: "Body",
+        user_notes_count: 3,
+        head_pipeline: { status: "failed" },
+      });
+    gitlab.routes[`GET ${PROJECT}/merge_requests/4/approvals`] = () => ({
+      approved: true,
+      approvals_left: 0,
+      approved_by: [{ user: { username: "alice" } }],
+    });
+    gitlab.routes[`GET ${PROJECT}/merge_requests/4/discussions`] = () => [
+      { notes: [{ resolvable: true, resolved: true }] },
+      { notes: [{ resolvable: true, resolved: false }] },
+      { notes: [{ resolvable: false }] },
+    ];
+
+    // Act
+    const prs = await getForge().getPRsForBranches(["feature", "no-mr"]);
+
+    // Assert
+    expect([...prs.keys()]).toEqual(["feature"]);
+    expect(prs.get("feature")).toMatchObject({
+      number: 4,
+      state: "OPEN",
+      headRefName: "feature",
+      baseRefName: "main",
+      body: "Body",
+      reviewDecision: "APPROVED",
+      checks: [{ name: "pipeline", status: "COMPLETED", conclusion: "FAILURE" }],
+      comments: { total: 3, resolved: 1 },
+    });
+    expect(gitlab.requests[0].path).toContain("source_branch=feature");
+  });
+
+  it("limits how many API requests run at once", async () => {
+    gitlab.routes[`GET ${PROJECT}/merge_requests`] = () => [];
+    gitlab.delayMs = 50;
+    const branches = Array.from({ length: 20 }, (_, i) => `branch-${i}`);
+
+    await getForge().getPRsForBranches(branches);
+
+    expect(gitlab.requestsTo("GET", `${PROJECT}/merge_requests`)).toHaveLength(20);
+    expect(gitlab.maxInFlight).toBeLessThanOrEqual(DEFAULT_MAX_CONCURRENT);
+  });
+
+  it("creates draft merge requests with reviewers, labels and milestone", async () => {
+    // Arrange
+    gitlab.routes["GET /users"] = ({ path }) => [{ id: path.includes("alice") ? 1 : 2 }];
+    gitlab.routes[`GET ${PROJECT}/milestones`] = () => [{ id: 30 }];
+    gitlab.routes[`POST ${PROJECT}/merge_requests`] = ({ body }) =>
+      mergeRequest(9, { title: body.title, draft: true });
+
+    // Act
+    const pr = await getForge().createPR("Add feature", "Description", "main", {
+      head: "feature",
+      draft: true,
+      metadata: { reviewers: ["alice"], labels: ["backend", "api"], assignees: ["bob"], milestone: "v1" },
+    });
+
+    // Assert
+    expect(pr).toMatchObject({ number: 9, isDraft: true, state: "OPEN" });
+    expect(gitlab.requestsTo("POST", `${PROJECT}/merge_requests`)[0].body).toEqual({
+      source_branch: "feature",
+      target_branch: "main",
+      title: "Draft: Add feature",
+      description: "Description",
+      reviewer_ids: [1],
+      assignee_ids: [2],
+      labels: "backend,api",
+      milestone_id: 30,
+    });
+  });
+
+  it("keeps existing reviewers when adding new ones", async () => {
+    gitlab.routes["GET /users"] = () => [{ id: 2 }];
+    gitlab.routes[`GET ${PROJECT}/merge_requests/4`] = () => mergeRequest(4, { reviewers: [{ id: 1 }] });
+    gitlab.routes[`PUT ${PROJECT}/merge_requests/4`] = () => mergeRequest(4);
+
+    await getForge().addPRMetadata(4, { reviewers: ["bob"], labels: ["backend"], assignees: [] });
+
+    expect(gitlab.requestsTo("PUT", `${PROJECT}/merge_requests/4`)[0].body).toEqual({
+      reviewer_ids: [1, 2],
+      add_labels: "backend",
+    });
+  });
+
+  it("marks drafts ready by dropping the Draft: prefix", async () => {
+    gitlab.routes[`GET ${PROJECT}/merge_requests/4`] = () => mergeRequest(4, { title: "Draft: Add feature" });
+    gitlab.routes[`PUT ${PROJECT}/merge_requests/4`] = () => mergeRequest(4);
+
+    await getForge().markPRReady(4);
+
+    expect(gitlab.requestsTo("PUT", `${PROJECT}/merge_requests/4`)[0].body).toEqual({ title: "Add feature" });
+  });
+
+  it("lists merge requests in fgt todo", async () => {
+    // Arrange - one MR to review, one of our own awaiting review
+    gitlab.routes[`GET ${PROJECT}/merge_requests`] = ({ path }) =>
+      path.includes("reviewer_username=flo") ? [mergeRequest(1)] : [mergeRequest(2)];
+    for (const iid of [1, 2]) {
+      gitlab.routes[`GET ${PROJECT}/merge_requests/${iid}`] = () => mergeRequest(iid);
+      gitlab.routes[`GET ${PROJECT}/merge_requests/${iid}/approvals`] = () => ({
+        approved: false,
+        approvals_left: 1,
+        approved_by: [],
+      });
+      gitlab.routes[`GET ${PROJECT}/merge_requests/${iid}/discussions`] = () => [];
+    }
+
+    // Act
+    await runCommand(["todo", "--json"], testRepo);
+
+    // Assert
+    const printed = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+    expect(printed.categories["needs-my-review"].map((pr: any) => pr.number)).toEqual([1]);
+    expect(printed.categories["awaiting-review"]).toEqual([
+      expect.objectContaining({ number: 2, branch: "branch-2", reviewDecision: "REVIEW_REQUIRED" }),
+    ]);
+  });
+});
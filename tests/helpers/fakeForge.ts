@@ -0,0 +1,243 @@
+import { execSync } from 'child_process';
+import { ForgeProvider, PRDetails, PRInfo, PRMetadata, PRSearch } from '../../src/types/index';
+import { getCurrentBranch } from '../../src/lib/git';
+
+/**
+ * A PR in the fake forge's store
+ */
+export interface FakePR extends PRDetails {
+  author: string;
+  reviewers: string[];
+  labels: string[];
+  assignees: string[];
+  milestone?: string;
+}
+
+/**
+ * In-memory stand-in for GitHub, backed by a bare remote repository.
+ * Plug it in with setForge(); merges write real commits to the remote so
+ * sync sees them after fetching.
+ */
+export class FakeForge implements ForgeProvider {
+  readonly kind = 'github';
+  readonly authError = 'Fake forge not authenticated';
+  /** '#', or '!' to reference PRs like GitLab merge requests */
+  referencePrefix = '#';
+
+  authenticated = true;
+  /** Login of the user fgt runs as */
+  currentUser = 'me';
+  readonly prs: FakePR[] = [];
+  /** PR numbers opened in the browser */
+  readonly opened: number[] = [];
+
+  constructor(private remotePath: string) {}
+
+  /**
+   * Get a PR from the store (throws if it doesn't exist)
+   */
+  pr(prNumber: number): FakePR {
+    const pr = this.prs.find(p => p.number === prNumber);
+    if (!pr) {
+      throw new Error(`no pull requests found for #${prNumber}`);
+    }
+    return pr;
+  }
+
+  /**
+   * Add a PR directly, without a branch on the remote (e.g. someone else's PR for todo)
+   */
+  addPR(fields: Partial<FakePR> & { headRefName: string }): FakePR {
+    const number = this.prs.length + 1;
+    const pr: FakePR = {
+      number,
+      title: `PR #${number}`,
+      url: `https://github.com/fake/repo/pull/${number}`,
+      state: 'OPEN',
+      merged: false,
+      baseRefName: 'main',
+      isDraft: false,
+      reviewDecision: null,
+      body: '',
+      checks: [],
+      comments: { total: 0, resolved: 0 },
+      author: this.currentUser,
+      reviewers: [],
+      labels: [],
+      assignees: [],
+      ...fields,
+    };
+    this.prs.push(pr);
+    return pr;
+  }
+
+  /**
+   * Merge a PR on the remote: a merge commit, or a single squashed commit on the base branch
+   */
+  merge(
+    prNumber: number,
+    { method = 'merge', deleteBranch = false }: { method?: 'merge' | 'squash'; deleteBranch?: boolean } = {},
+  ): void {
+    const pr = this.pr(prNumber);
+    if (pr.state !== 'OPEN') {
+      throw new Error(`Pull request #${prNumber} is not open`);
+    }
+
+    const base = this.remoteGit(`rev-parse refs/heads/${pr.baseRefName}`);
+    const head = this.remoteGit(`rev-parse refs/heads/${pr.headRefName}`);
+    const tree = this.remoteGit(`merge-tree --write-tree ${base} ${head}`).split('\n')[0];
+    const commit = method === 'squash'
+      ? this.remoteGit(`commit-tree ${tree} -p ${base} -m ${JSON.stringify(`${pr.title} (#${prNumber})`)}`)
+      : this.remoteGit(`commit-tree ${tree} -p ${base} -p ${head} -m "Merge pull request #${prNumber} from ${pr.headRefName}"`);
+    this.remoteGit(`update-ref refs/heads/${pr.baseRefName} ${commit}`);
+    if (deleteBranch) {
+      this.remoteGit(`update-ref -d refs/heads/${pr.headRefName}`);
+    }
+
+    pr.state = 'MERGED';
+    pr.merged = true;
+  }
+
+  /**
+   * Close a PR without merging it
+   */
+  close(prNumber: number): void {
+    this.pr(prNumber).state = 'CLOSED';
+  }
+
+  /**
+   * Record a review, e.g. 'APPROVED' or 'CHANGES_REQUESTED'
+   */
+  review(prNumber: number, decision: string | null): void {
+    this.pr(prNumber).reviewDecision = decision;
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    return this.authenticated;
+  }
+
+  /** Like gh pr list --head, only open PRs are found */
+  async getPRForBranch(branchName: string): Promise<PRInfo | null> {
+    const pr = this.latestPR(branchName);
+    return pr && pr.state === 'OPEN' ? this.copy(pr) : null;
+  }
+
+  async getPRsForBranches(branches: string[]): Promise<Map<string, PRDetails>> {
+    const map = new Map<string, PRDetails>();
+    for (const branch of branches) {
+      const pr = this.latestPR(branch);
+      if (pr) {
+        map.set(branch, this.copy(pr));
+      }
+    }
+    return map;
+  }
+
+  async searchPRs(searches: PRSearch[]): Promise<PRDetails[][]> {
+    const open = this.prs.filter(pr => pr.state === 'OPEN');
+    return searches.map(search =>
+      open
+        .filter(pr => (search === 'authored' ? pr.author === this.currentUser : pr.reviewers.includes(this.currentUser)))
+        .map(pr => this.copy(pr))
+    );
+  }
+
+  async createPR(
+    title: string,
+    body: string,
+    baseBranch: string,
+    options: { head?: string; draft?: boolean; metadata?: PRMetadata } = {},
+  ): Promise<PRInfo> {
+    const head = options.head ?? getCurrentBranch();
+    if (!this.remoteBranchExists(head)) {
+      throw new Error(`Failed to create PR: head branch '${head}' has not been pushed`);
+    }
+    if (!this.remoteBranchExists(baseBranch)) {
+      throw new Error(`Failed to create PR: base branch '${baseBranch}' does not exist`);
+    }
+    const existing = this.latestPR(head);
+    if (existing?.state === 'OPEN') {
+      throw new Error(`Failed to create PR: a pull request for branch "${head}" already exists:\n${existing.url}`);
+    }
+
+    const pr = this.addPR({ title, body, baseRefName: baseBranch, headRefName: head, isDraft: !!options.draft });
+    if (options.metadata) {
+      await this.addPRMetadata(pr.number, options.metadata);
+    }
+    return this.copy(pr);
+  }
+
+  async updatePRBody(prNumber: number, body: string): Promise<void> {
+    this.pr(prNumber).body = body;
+  }
+
+  async addPRMetadata(prNumber: number, metadata: PRMetadata): Promise<void> {
+    const pr = this.pr(prNumber);
+    pr.reviewers = [...new Set([...pr.reviewers, ...metadata.reviewers])];
+    pr.labels = [...new Set([...pr.labels, ...metadata.labels])];
+    pr.assignees = [...new Set([...pr.assignees, ...metadata.assignees])];
+    pr.milestone = metadata.milestone ?? pr.milestone;
+  }
+
+  async updatePRBase(prNumber: number, baseBranch: string): Promise<void> {
+    if (!this.remoteBranchExists(baseBranch)) {
+      throw new Error(`Base ref must be a branch: '${baseBranch}' does not exist`);
+    }
+    this.pr(prNumber).baseRefName = baseBranch;
+  }
+
+  async markPRReady(prNumber: number): Promise<void> {
+    this.pr(prNumber).isDraft = false;
+  }
+
+  async closePR(prNumber: number): Promise<void> {
+    this.close(prNumber);
+  }
+
+  async getPRBranchName(prNumber: number): Promise<string> {
+    return this.pr(prNumber).headRefName;
+  }
+
+  async openPR(prNumber: number): Promise<void> {
+    this.opened.push(this.pr(prNumber).number);
+  }
+
+  async openNewPR(): Promise<void> {
+    // Nothing to open
+  }
+
+  private latestPR(branchName: string): FakePR | undefined {
+    return [...this.prs].reverse().find(pr => pr.headRefName === branchName);
+  }
+
+  /**
+   * Hand out copies so commands can't change the store behind the fake's back
+   */
+  private copy(pr: FakePR): FakePR {
+    return structuredClone(pr);
+  }
+
+  private remoteBranchExists(branchName: string): boolean {
+    try {
+      this.remoteGit(`rev-parse --verify --quiet refs/heads/${branchName}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private remoteGit(command: string): string {
+    return execSync(`git ${command}`, {
+      cwd: this.remotePath,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Fake Forge',
+        GIT_AUTHOR_EMAIL: 'forge@example.com',
+        GIT_COMMITTER_NAME: 'Fake Forge',
+        GIT_COMMITTER_EMAIL: 'forge@example.com',
+      },
+    }).trim();
+  }
+}
@@ -0,0 +1,77 @@
+import { MockExecutor } from './mockExecutor';
+
+/**
+ * A PR as tests describe it; everything but the number has a default
+ */
+export interface MockPR {
+  number: number;
+  title?: string;
+  url?: string;
+  state?: string;
+  isDraft?: boolean;
+  merged?: boolean;
+  reviewDecision?: string | null;
+  body?: string;
+  baseRefName?: string;
+  headRefName?: string;
+  checks?: Array<{ name: string; status: string; conclusion: string | null }>;
+  comments?: { total: number; resolved: number };
+}
+
+/**
+ * Build a PullRequest node as returned by `gh api graphql`
+ */
+export function prNode(pr: MockPR, headRefName: string = pr.headRefName ?? ''): any {
+  const total = pr.comments?.total ?? 0;
+  const resolved = pr.comments?.resolved ?? 0;
+  return {
+    number: pr.number,
+    title: pr.title ?? `PR #${pr.number}`,
+    url: pr.url ?? `https://github.com/user/repo/pull/${pr.number}`,
+    state: pr.state ?? (pr.merged ? 'MERGED' : 'OPEN'),
+    isDraft: pr.isDraft ?? false,
+    mergedAt: pr.merged ? '2024-01-01T00:00:00Z' : null,
+    reviewDecision: pr.reviewDecision ?? null,
+    body: pr.body ?? '',
+    baseRefName: pr.baseRefName ?? 'main',
+    headRefName,
+    comments: { totalCount: total },
+    reviewThreads: { nodes: Array.from({ length: total }, (_, i) => ({ isResolved: i < resolved })) },
+    commits: {
+      nodes: [{
+        commit: {
+          statusCheckRollup: pr.checks
+            ? { contexts: { nodes: pr.checks.map(check => ({ __typename: 'CheckRun', ...check })) } }
+            : null,
+        },
+      }],
+    },
+  };
+}
+
+/**
+ * Answer gh.getPRsForBranches queries from a branch → PR record.
+ * Branches missing from the record have no PR; the record may be changed between calls.
+ */
+export function mockBranchPRs(executor: MockExecutor, prs: Record<string, MockPR>): void {
+  executor.onCommand('pullRequests(headRefName').returns(command => {
+    const repository: Record<string, any> = {};
+    for (const [, alias, branch] of command.matchAll(/ -f (b\d+)='([^']*)'/g)) {
+      repository[alias] = { nodes: prs[branch] ? [prNode(prs[branch], branch)] : [] };
+    }
+    return JSON.stringify({ data: { repository } });
+  });
+}
+
+/**
+ * Answer gh.searchPRDetails queries: search i returns results[i]
+ */
+export function mockPRSearch(executor: MockExecutor, results: MockPR[][]): void {
+  executor.onCommand('search(query:').returns(command => {
+    const data: Record<string, any> = {};
+    for (const [, alias, index] of command.matchAll(/ -F (q(\d+))=/g)) {
+      data[alias] = { nodes: (results[Number(index)] ?? []).map(pr => prNode(pr)) };
+    }
+    return JSON.stringify({ data });
+  });
+}
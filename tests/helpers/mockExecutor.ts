@@ -64,6 +64,13 @@ export class MockExecutor implements CommandExecutor {
     }
   }
 
+  /**
+   * Execute a command asynchronously - same mocks and fallback as exec
+   */
+  async execAsync(command: string, options?: { cwd?: string }): Promise<string> {
+    return this.exec(command, options);
+  }
+
   /**
    * Get all executed commands
    */
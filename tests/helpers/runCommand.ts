@@ -60,7 +60,10 @@ export async function runCommand(
     const commandOptions: Record<string, any> = {};
     for (let i = 1; i < args.length; i++) {
       const arg = args[i];
-      if (arg.startsWith('--')) {
+      if (arg.startsWith('--no-')) {
+        // Negated flag (e.g., --no-restack)
+        commandOptions[arg.substring(5)] = false;
+      } else if (arg.startsWith('--')) {
         const key = arg.substring(2);
         // Check if next arg is a value or another flag
         if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
@@ -75,8 +78,10 @@ export async function runCommand(
       }
     }
 
-    // Execute command
-    await commandFn(commandOptions._positional?.[0], commandOptions);
+    // Execute command - one argument per declared positional parameter, options last
+    const positional = commandOptions._positional || [];
+    const commandArgs = Array.from({ length: commandFn.length }, (_, i) => positional[i]);
+    await commandFn(...commandArgs, commandOptions);
   } finally {
     process.chdir(originalCwd);
     clearPromptMocks();
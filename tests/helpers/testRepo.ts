@@ -106,9 +106,24 @@ export class TestRepository {
   }
 
   /**
-   * Get tracked branches from config
+   * Read flowgit's branch metadata file, or null if it has not been written yet
+   */
+  metadata(): any | null {
+    const file = path.join(this.path, '.git', 'flowgit', 'metadata.json');
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  }
+
+  /**
+   * Get tracked branches from metadata (or legacy config)
    */
   trackedBranches(): string[] {
+    const metadata = this.metadata();
+    if (metadata) {
+      return metadata.tracked;
+    }
     try {
       const tracked = this.git('config --get flowgit.tracked');
       return tracked.split(',').filter(b => b.trim());
@@ -118,11 +133,26 @@ export class TestRepository {
   }
 
   /**
-   * Get parent of a branch
+   * Get parent of a branch from metadata (or legacy config)
    */
   parentBranch(branchName: string): string | null {
+    return this.branchField(branchName, 'parent');
+  }
+
+  /**
+   * Get the recorded base SHA of a branch from metadata (or legacy config)
+   */
+  branchBase(branchName: string): string | null {
+    return this.branchField(branchName, 'base');
+  }
+
+  private branchField(branchName: string, field: string): string | null {
+    const metadata = this.metadata();
+    if (metadata) {
+      return metadata.branches[branchName]?.[field] ?? null;
+    }
     try {
-      return this.git(`config --get flowgit.branch.${branchName}.parent`);
+      return this.git(`config --get flowgit.branch.${branchName}.${field}`);
     } catch {
       return null;
     }
@@ -2,6 +2,8 @@ import { TestRepository } from "./helpers/testRepo";
 import { runCommand } from "./helpers/runCommand";
 import { MockExecutor } from "./helpers/mockExecutor";
 import { setExecutor, resetExecutor } from "../src/lib/executor";
+import { mockBranchPRs } from "./helpers/github";
+import { setJsonMode } from "../src/lib/output";
 
 describe("fgt log", () => {
   let testRepo: TestRepository;
@@ -29,9 +31,7 @@ describe("fgt log", () => {
     testRepo.git('config flowgit.branch.feature-branch.parent "main"');
 
     // Mock gh to return no PR
-    mockExecutor
-      .onCommand("gh pr list --head feature-branch")
-      .returns(JSON.stringify([]));
+    mockBranchPRs(mockExecutor, {});
 
     // Act - should not throw
     await runCommand(["log"], testRepo);
@@ -63,21 +63,14 @@ describe("fgt log", () => {
     testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
 
     // Mock gh to return no PRs
-    mockExecutor
-      .onCommand("gh pr list --head branch-a")
-      .returns(JSON.stringify([]));
-    mockExecutor
-      .onCommand("gh pr list --head branch-b")
-      .returns(JSON.stringify([]));
-    mockExecutor
-      .onCommand("gh pr list --head branch-c")
-      .returns(JSON.stringify([]));
+    mockBranchPRs(mockExecutor, {});
 
     // Act
     await runCommand(["log"], testRepo);
 
-    // Assert - verify current branch is still the same
+    // Assert - verify current branch is still the same, and PRs were fetched in one request
     expect(testRepo.currentBranch()).toBe("branch-c");
+    expect(mockExecutor.getCallsMatching("gh api graphql")).toHaveLength(1);
   });
 
   it("displays stack with PR information", async () => {
@@ -91,17 +84,9 @@ describe("fgt log", () => {
     testRepo.git('config flowgit.branch.feature-with-pr.parent "main"');
 
     // Mock gh to return a PR
-    mockExecutor.onCommand("gh pr list --head feature-with-pr").returns(
-      JSON.stringify([
-        {
-          number: 123,
-          title: "Add feature",
-          state: "OPEN",
-          url: "https://github.com/user/repo/pull/123",
-          merged: false,
-        },
-      ]),
-    );
+    mockBranchPRs(mockExecutor, {
+      "feature-with-pr": { number: 123, title: "Add feature", state: "OPEN" },
+    });
 
     // Act
     await runCommand(["log"], testRepo);
@@ -136,15 +121,7 @@ describe("fgt log", () => {
     testRepo.git('config flowgit.branch.branch-c.parent "main"');
 
     // Mock gh
-    mockExecutor
-      .onCommand("gh pr list --head branch-a")
-      .returns(JSON.stringify([]));
-    mockExecutor
-      .onCommand("gh pr list --head branch-b")
-      .returns(JSON.stringify([]));
-    mockExecutor
-      .onCommand("gh pr list --head branch-c")
-      .returns(JSON.stringify([]));
+    mockBranchPRs(mockExecutor, {});
 
     // Act
     await runCommand(["log"], testRepo);
@@ -174,9 +151,7 @@ describe("fgt log", () => {
     testRepo.git('config flowgit.tracked "orphan-branch"');
     // Don't set parent - should default to main
 
-    mockExecutor
-      .onCommand("gh pr list --head orphan-branch")
-      .returns(JSON.stringify([]));
+    mockBranchPRs(mockExecutor, {});
 
     // Act
     await runCommand(["log"], testRepo);
@@ -184,4 +159,60 @@ describe("fgt log", () => {
     // Assert
     expect(testRepo.currentBranch()).toBe("orphan-branch");
   });
+
+  describe("JSON output", () => {
+    beforeEach(() => {
+      (console.log as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+      setJsonMode(false);
+    });
+
+    function printedJson(): any {
+      const calls = (console.log as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(1);
+      return JSON.parse(calls[0][0]);
+    }
+
+    it("prints the stack tree with PR info", async () => {
+      // Arrange
+      testRepo.git("checkout -b branch-a");
+      testRepo.writeFile("a.ts", "a");
+      testRepo.git("add a.ts");
+      testRepo.git('commit -m "A"');
+      testRepo.git("checkout -b branch-b");
+      testRepo.writeFile("b.ts", "b");
+      testRepo.git("add b.ts");
+      testRepo.git('commit -m "B"');
+      testRepo.git('config flowgit.tracked "branch-a,branch-b"');
+      testRepo.git('config flowgit.branch.branch-a.parent "main"');
+      testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+
+      mockBranchPRs(mockExecutor, { "branch-a": { number: 5, title: "A", state: "OPEN" } });
+
+      // Act
+      await runCommand(["log", "--json"], testRepo);
+
+      // Assert
+      expect(printedJson()).toEqual({
+        version: 1,
+        trunk: "main",
+        currentBranch: "branch-b",
+        tree: {
+          name: "main",
+          isCurrent: false,
+          pr: null,
+          children: [
+            {
+              name: "branch-a",
+              isCurrent: false,
+              pr: { number: 5, state: "OPEN", merged: false },
+              children: [{ name: "branch-b", isCurrent: true, pr: null, children: [] }],
+            },
+          ],
+        },
+      });
+    });
+  });
 });
@@ -0,0 +1,129 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+import * as config from "../src/lib/config";
+import { getStateDir } from "../src/lib/state";
+
+describe("branch metadata", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  it("reads legacy git config keys before migration", () => {
+    testRepo.git('config flowgit.tracked "branch-a,branch-b"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+
+    expect(config.getTrackedBranches(testRepo.path)).toEqual(["branch-a", "branch-b"]);
+    expect(config.getChildren("branch-a", testRepo.path)).toEqual(["branch-b"]);
+    expect(testRepo.metadata()).toBeNull();
+  });
+
+  it("migrates legacy keys into the metadata file on first write", () => {
+    testRepo.git('config flowgit.tracked "branch-a,branch-b"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-b.base "abc123"');
+
+    config.addTrackedBranch("branch-c", testRepo.path);
+
+    expect(testRepo.metadata()).toEqual({
+      version: 1,
+      tracked: ["branch-a", "branch-b", "branch-c"],
+      branches: {
+        "branch-a": { parent: "main" },
+        "branch-b": { parent: "branch-a", base: "abc123" },
+      },
+    });
+    expect(() => testRepo.git("config --get flowgit.tracked")).toThrow();
+    expect(() => testRepo.git("config --get flowgit.branch.branch-b.parent")).toThrow();
+  });
+
+  it("keeps git config settings such as the trunk", () => {
+    testRepo.git("branch develop");
+    testRepo.git("config flowgit.trunk develop");
+    testRepo.git('config flowgit.tracked "branch-a"');
+
+    config.setParentBranch("branch-a", "develop", testRepo.path);
+
+    expect(testRepo.git("config --get flowgit.trunk")).toBe("develop");
+  });
+
+  it("supports branch names containing commas", async () => {
+    testRepo.git("branch fix,typo");
+
+    await runCommand(["checkout", "fix,typo"], testRepo);
+
+    expect(testRepo.trackedBranches()).toEqual(["fix,typo"]);
+  });
+
+  it("resolves children without a git call per branch", () => {
+    const branches = Array.from({ length: 10 }, (_, i) => `branch-${i}`);
+    for (const [i, branch] of branches.entries()) {
+      config.addTrackedBranch(branch, testRepo.path);
+      config.setParentBranch(branch, i === 0 ? "main" : branches[i - 1], testRepo.path);
+    }
+
+    mockExecutor.clearCalls();
+    expect(config.getDescendants("branch-0", testRepo.path)).toEqual(branches.slice(1));
+    expect(mockExecutor.getCalls()).toEqual([]);
+  });
+
+  it("records PR numbers", () => {
+    config.addTrackedBranch("feature", testRepo.path);
+    config.setPRNumber("feature", 42, testRepo.path);
+
+    expect(config.getPRNumber("feature", testRepo.path)).toBe(42);
+    expect(testRepo.metadata().branches.feature.prNumber).toBe(42);
+  });
+
+  it("forgets a branch's parent, base and PR number when it is untracked", () => {
+    config.addTrackedBranch("feature", testRepo.path);
+    config.setParentBranch("feature", "main", testRepo.path);
+    config.setPRNumber("feature", 42, testRepo.path);
+
+    config.removeTrackedBranch("feature", testRepo.path);
+
+    expect(testRepo.metadata().branches.feature).toBeUndefined();
+    expect(config.getPRNumber("feature", testRepo.path)).toBeNull();
+  });
+
+  describe("linked worktrees", () => {
+    let worktreePath: string;
+
+    beforeEach(() => {
+      worktreePath = testRepo.path + "-worktree";
+      testRepo.git(`worktree add -b wt-branch ${worktreePath}`);
+    });
+
+    afterEach(() => {
+      testRepo.git(`worktree remove --force ${worktreePath}`);
+    });
+
+    it("shares metadata with the main checkout", () => {
+      testRepo.git('config flowgit.tracked "branch-a"');
+
+      config.addTrackedBranch("wt-branch", worktreePath);
+      config.setParentBranch("wt-branch", "main", worktreePath);
+
+      expect(config.getTrackedBranches(testRepo.path)).toEqual(["branch-a", "wt-branch"]);
+      expect(config.getParentBranch("wt-branch", testRepo.path)).toBe("main");
+      expect(testRepo.metadata().tracked).toEqual(["branch-a", "wt-branch"]);
+    });
+
+    it("keeps restack state per worktree", () => {
+      expect(getStateDir(worktreePath)).not.toBe(getStateDir(testRepo.path));
+    });
+  });
+});
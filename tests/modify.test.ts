@@ -664,4 +664,141 @@ describe("fgt modify", () => {
       expect(testRepo.fileExists("file with spaces.txt")).toBe(true);
     });
   });
+
+  describe("restacking descendants", () => {
+    /**
+     * Stack main → branch-a → branch-b → branch-c, currently on branch-a
+     */
+    function createStack(): void {
+      testRepo.git("checkout -b branch-a");
+      testRepo.writeFile("a.ts", "a");
+      testRepo.git("add a.ts");
+      testRepo.git('commit -m "A"');
+
+      testRepo.git("checkout -b branch-b");
+      testRepo.writeFile("b.ts", "b");
+      testRepo.git("add b.ts");
+      testRepo.git('commit -m "B"');
+
+      testRepo.git("checkout -b branch-c");
+      testRepo.writeFile("c.ts", "c");
+      testRepo.git("add c.ts");
+      testRepo.git('commit -m "C"');
+
+      testRepo.git("checkout branch-a");
+      testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+      testRepo.git('config flowgit.branch.branch-a.parent "main"');
+      testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+      testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+    }
+
+    it("restacks all descendants onto the amended commit", async () => {
+      // Arrange
+      createStack();
+      testRepo.writeFile("a.ts", "a amended");
+      testRepo.git("add a.ts");
+
+      // Act
+      await runCommand(["modify"], testRepo);
+
+      // Assert - descendants contain the amended commit and no stale copy
+      expect(testRepo.currentBranch()).toBe("branch-a");
+      expect(testRepo.git("merge-base --is-ancestor branch-a branch-b && echo yes")).toBe("yes");
+      expect(testRepo.git("merge-base --is-ancestor branch-b branch-c && echo yes")).toBe("yes");
+      expect(testRepo.git("rev-list --count branch-a..branch-b")).toBe("1");
+      expect(testRepo.git("show branch-c:a.ts")).toBe("a amended");
+    });
+
+    it("does not restack with --no-restack", async () => {
+      // Arrange
+      createStack();
+      const bBefore = testRepo.git("rev-parse branch-b");
+      testRepo.writeFile("a.ts", "a amended");
+      testRepo.git("add a.ts");
+
+      // Act
+      await runCommand(["modify", "--no-restack"], testRepo);
+
+      // Assert
+      expect(testRepo.git("rev-parse branch-b")).toBe(bBefore);
+      expect(mockExecutor.getCallsMatching("git rebase").length).toBe(0);
+    });
+
+    it("skips the restack while other tracked files have unstaged changes", async () => {
+      // Arrange - a.ts staged for the amendment, .gitkeep changed but not staged
+      createStack();
+      testRepo.writeFile(".gitkeep", "changed");
+      testRepo.writeFile("a.ts", "a amended");
+      testRepo.git("add a.ts");
+      const bBefore = testRepo.git("rev-parse branch-b");
+
+      // Act
+      await runCommand(["modify"], testRepo);
+
+      // Assert - nothing was rebased and the unstaged change is kept
+      expect(testRepo.git("rev-parse branch-b")).toBe(bBefore);
+      expect(mockExecutor.getCallsMatching("git rebase")).toHaveLength(0);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("Uncommitted changes: commit or stash them"),
+      );
+      expect(testRepo.readFile(".gitkeep")).toBe("changed");
+    });
+
+    it("skips conflicting descendants and keeps going", async () => {
+      // Arrange - branch-b changes a.ts, which conflicts with the amendment
+      testRepo.git("checkout -b branch-a");
+      testRepo.writeFile("a.ts", "a");
+      testRepo.git("add a.ts");
+      testRepo.git('commit -m "A"');
+
+      testRepo.git("checkout -b branch-b");
+      testRepo.writeFile("a.ts", "b's change");
+      testRepo.git("add a.ts");
+      testRepo.git('commit -m "B"');
+
+      testRepo.git("checkout branch-a");
+      testRepo.git("checkout -b branch-d");
+      testRepo.writeFile("d.ts", "d");
+      testRepo.git("add d.ts");
+      testRepo.git('commit -m "D"');
+
+      testRepo.git("checkout branch-a");
+      testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-d"');
+      testRepo.git('config flowgit.branch.branch-a.parent "main"');
+      testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+      testRepo.git('config flowgit.branch.branch-d.parent "branch-a"');
+
+      const bBefore = testRepo.git("rev-parse branch-b");
+      testRepo.writeFile("a.ts", "a amended");
+      testRepo.git("add a.ts");
+
+      // Act
+      await runCommand(["modify"], testRepo);
+
+      // Assert - branch-b untouched, branch-d restacked, no rebase left over
+      expect(testRepo.currentBranch()).toBe("branch-a");
+      expect(testRepo.git("rev-parse branch-b")).toBe(bBefore);
+      expect(testRepo.git("merge-base --is-ancestor branch-a branch-d && echo yes")).toBe("yes");
+      expect(testRepo.isClean()).toBe(true);
+    });
+  });
+
+  describe("with --all", () => {
+    it("stages every change without prompting", async () => {
+      // Arrange
+      testRepo.git("checkout -b feature");
+      testRepo.writeFile("file1.txt", "content1");
+      testRepo.git("add file1.txt");
+      testRepo.git('commit -m "Add file1"');
+      testRepo.writeFile("file1.txt", "changed");
+      testRepo.writeFile("file2.txt", "content2");
+
+      // Act
+      await runCommand(["modify", "--all"], testRepo, { prompts: { choice: "cancel" } });
+
+      // Assert
+      expect(testRepo.isClean()).toBe(true);
+      expect(testRepo.git("show --name-only --format= HEAD")).toBe("file1.txt\nfile2.txt");
+    });
+  });
 });
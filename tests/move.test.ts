@@ -0,0 +1,99 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt move", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * main → branch-a → branch-b → branch-c, plus main → other
+   */
+  function createStacks(): void {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git("checkout main");
+    testRepo.git("checkout -b other");
+    testRepo.writeFile("other.ts", "other");
+    testRepo.git("add other.ts");
+    testRepo.git('commit -m "Other"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c,other"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+    testRepo.git('config flowgit.branch.other.parent "main"');
+  }
+
+  it("moves the current branch and its subtree onto another branch", async () => {
+    createStacks();
+    testRepo.git("checkout branch-b");
+
+    // Act
+    await runCommand(["move", "--onto", "other"], testRepo);
+
+    // Assert - branch-b carries only its own commit on top of other
+    expect(testRepo.currentBranch()).toBe("branch-b");
+    expect(testRepo.parentBranch("branch-b")).toBe("other");
+    expect(testRepo.parentBranch("branch-c")).toBe("branch-b");
+    expect(testRepo.git("rev-list --count other..branch-b")).toBe("1");
+    expect(testRepo.fileExists("a.ts")).toBe(false);
+    expect(testRepo.git("merge-base --is-ancestor branch-b branch-c && echo yes")).toBe("yes");
+    expect(testRepo.git("rev-list --count branch-b..branch-c")).toBe("1");
+  });
+
+  it("refuses to move onto a descendant", async () => {
+    createStacks();
+    testRepo.git("checkout branch-a");
+
+    await expect(
+      runCommand(["move", "--onto", "branch-c"], testRepo),
+    ).rejects.toThrow("process.exit(1)");
+    expect(testRepo.parentBranch("branch-a")).toBe("main");
+  });
+
+  it("errors when the target does not exist", async () => {
+    createStacks();
+    testRepo.git("checkout branch-a");
+
+    await expect(
+      runCommand(["move", "--onto", "nonexistent"], testRepo),
+    ).rejects.toThrow("process.exit(1)");
+  });
+
+  it("uses the branch picker when no target is given", async () => {
+    createStacks();
+    testRepo.git("checkout branch-c");
+
+    await runCommand(["move"], testRepo, { prompts: { branch: "branch-a" } });
+
+    expect(testRepo.parentBranch("branch-c")).toBe("branch-a");
+    expect(testRepo.git("rev-list --count branch-a..branch-c")).toBe("1");
+    expect(testRepo.fileExists("b.ts")).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt rename", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * main → branch-a → branch-b
+   */
+  function createStack(): void {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git("checkout branch-a");
+  }
+
+  it("renames the branch and keeps it tracked", async () => {
+    createStack();
+    const baseSha = testRepo.git("rev-parse main");
+    testRepo.git(`config flowgit.branch.branch-a.base "${baseSha}"`);
+
+    // Act
+    await runCommand(["rename", "renamed-a"], testRepo);
+
+    // Assert
+    expect(testRepo.currentBranch()).toBe("renamed-a");
+    expect(testRepo.branchExists("branch-a")).toBe(false);
+    expect(testRepo.trackedBranches()).toEqual(["renamed-a", "branch-b"]);
+    expect(testRepo.parentBranch("renamed-a")).toBe("main");
+    expect(testRepo.branchBase("renamed-a")).toBe(baseSha);
+    expect(testRepo.metadata().branches["branch-a"]).toBeUndefined();
+  });
+
+  it("points children at the new name", async () => {
+    createStack();
+
+    await runCommand(["rename", "renamed-a"], testRepo);
+
+    expect(testRepo.parentBranch("branch-b")).toBe("renamed-a");
+  });
+
+  it("pushes the new name and retargets open child PRs", async () => {
+    createStack();
+    testRepo.createRemote();
+    testRepo.git("push -u origin branch-a");
+    mockExecutor.onCommand("gh auth status").returns("");
+    mockExecutor.onCommand("gh pr list --head branch-b").returns(
+      JSON.stringify([{ number: 12, title: "B", url: "https://github.com/o/r/pull/12", state: "OPEN", mergedAt: null }]),
+    );
+    mockExecutor.onCommand("gh pr edit").returns("");
+
+    await runCommand(["rename", "renamed-a"], testRepo, { prompts: { confirmed: true } });
+
+    expect(testRepo.git("rev-parse origin/renamed-a")).toBe(testRepo.git("rev-parse renamed-a"));
+    expect(mockExecutor.getCallsMatching("gh pr edit 12 --base renamed-a")).toHaveLength(1);
+  });
+
+  it("does not push when declined", async () => {
+    createStack();
+    testRepo.createRemote();
+    testRepo.git("push -u origin branch-a");
+
+    await runCommand(["rename", "renamed-a"], testRepo, { prompts: { confirmed: false } });
+
+    expect(mockExecutor.getCallsMatching("push")).toHaveLength(0);
+    expect(testRepo.currentBranch()).toBe("renamed-a");
+  });
+
+  it("keeps a renamed branch that was not pushed through the next sync", async () => {
+    createStack();
+    testRepo.createRemote();
+    testRepo.git("push -u origin branch-a");
+    await runCommand(["rename", "renamed-a"], testRepo, { prompts: { confirmed: false } });
+
+    await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+    expect(testRepo.branchExists("renamed-a")).toBe(true);
+    expect(testRepo.trackedBranches()).toContain("renamed-a");
+  });
+
+  it("errors when the new name already exists", async () => {
+    createStack();
+
+    await expect(runCommand(["rename", "branch-b"], testRepo)).rejects.toThrow("process.exit(1)");
+    expect(testRepo.currentBranch()).toBe("branch-a");
+  });
+
+  it("errors on trunk", async () => {
+    await expect(runCommand(["rename", "renamed"], testRepo)).rejects.toThrow("process.exit(1)");
+  });
+});
@@ -0,0 +1,95 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt reorder", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * main → add-api → add-frontend → add-tests, currently on add-tests
+   */
+  function createStack(): void {
+    testRepo.git("checkout -b add-api");
+    testRepo.writeFile("api.ts", "api");
+    testRepo.git("add api.ts");
+    testRepo.git('commit -m "Add API"');
+
+    testRepo.git("checkout -b add-frontend");
+    testRepo.writeFile("frontend.ts", "frontend");
+    testRepo.git("add frontend.ts");
+    testRepo.git('commit -m "Add frontend"');
+
+    testRepo.git("checkout -b add-tests");
+    testRepo.writeFile("tests.ts", "tests");
+    testRepo.git("add tests.ts");
+    testRepo.git('commit -m "Add tests"');
+
+    testRepo.git('config flowgit.tracked "add-api,add-frontend,add-tests"');
+    testRepo.git('config flowgit.branch.add-api.parent "main"');
+    testRepo.git('config flowgit.branch.add-frontend.parent "add-api"');
+    testRepo.git('config flowgit.branch.add-tests.parent "add-frontend"');
+  }
+
+  it("rewrites parents and rebases in the edited order", async () => {
+    createStack();
+
+    // Act - move add-tests below add-frontend
+    await runCommand(["reorder"], testRepo, {
+      prompts: { edited: "add-api\nadd-tests\nadd-frontend\n" },
+    });
+
+    // Assert
+    expect(testRepo.currentBranch()).toBe("add-tests");
+    expect(testRepo.parentBranch("add-api")).toBe("main");
+    expect(testRepo.parentBranch("add-tests")).toBe("add-api");
+    expect(testRepo.parentBranch("add-frontend")).toBe("add-tests");
+    expect(testRepo.git("rev-list --count add-api..add-tests")).toBe("1");
+    expect(testRepo.git("rev-list --count add-tests..add-frontend")).toBe("1");
+    expect(testRepo.fileExists("frontend.ts")).toBe(false);
+  });
+
+  it("passes the current stack to the editor", async () => {
+    createStack();
+    const { editor } = jest.requireMock("@inquirer/prompts");
+    editor.mockClear();
+
+    await runCommand(["reorder"], testRepo);
+
+    expect(editor.mock.calls[0][0].default).toMatch(/^add-api\nadd-frontend\nadd-tests\n/);
+    expect(mockExecutor.getCallsMatching("git rebase").length).toBe(0);
+  });
+
+  it("errors when branches are missing from the new order", async () => {
+    createStack();
+
+    await expect(
+      runCommand(["reorder"], testRepo, {
+        prompts: { edited: "add-tests\nadd-api\n" },
+      }),
+    ).rejects.toThrow("process.exit(1)");
+    expect(testRepo.parentBranch("add-tests")).toBe("add-frontend");
+  });
+
+  it("errors on a single-branch stack", async () => {
+    testRepo.git("checkout -b feature");
+    testRepo.git('config flowgit.tracked "feature"');
+    testRepo.git('config flowgit.branch.feature.parent "main"');
+
+    await expect(runCommand(["reorder"], testRepo)).rejects.toThrow(
+      "process.exit(1)",
+    );
+  });
+});
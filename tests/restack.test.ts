@@ -295,4 +295,185 @@ describe("fgt restack", () => {
       expect(testRepo.readFile("b.ts")).toBe("b");
     });
   });
+
+  describe("recorded base", () => {
+    it("does not replay amended parent commits onto the child", async () => {
+      // Arrange - child built on parent, then parent's commit is amended
+      testRepo.git("checkout -b parent-branch");
+      testRepo.writeFile("shared.ts", "v1");
+      testRepo.git("add shared.ts");
+      testRepo.git('commit -m "Parent"');
+      const parentV1 = testRepo.git("rev-parse HEAD");
+
+      testRepo.git("checkout -b child-branch");
+      testRepo.writeFile("child.ts", "child");
+      testRepo.git("add child.ts");
+      testRepo.git('commit -m "Child"');
+
+      testRepo.git("checkout parent-branch");
+      testRepo.writeFile("shared.ts", "v2");
+      testRepo.git("add shared.ts");
+      testRepo.git("commit --amend --no-edit");
+
+      testRepo.git("checkout child-branch");
+      testRepo.git('config flowgit.tracked "parent-branch,child-branch"');
+      testRepo.git('config flowgit.branch.parent-branch.parent "main"');
+      testRepo.git('config flowgit.branch.child-branch.parent "parent-branch"');
+      testRepo.git(`config flowgit.branch.child-branch.base ${parentV1}`);
+
+      // Act
+      await runCommand(["restack", "parent-branch"], testRepo);
+
+      // Assert - only the child's own commit was moved
+      expect(mockExecutor.getCallsMatching(`git rebase --onto parent-branch ${parentV1}`).length).toBe(1);
+      expect(testRepo.git("rev-list --count parent-branch..child-branch")).toBe("1");
+      expect(testRepo.readFile("shared.ts")).toBe("v2");
+      expect(testRepo.branchBase("child-branch")).toBe(
+        testRepo.git("rev-parse parent-branch"),
+      );
+    });
+
+    it("falls back to a plain rebase without a recorded base", async () => {
+      testRepo.git("checkout -b feature");
+      testRepo.writeFile("feature.ts", "feature");
+      testRepo.git("add feature.ts");
+      testRepo.git('commit -m "Feature"');
+      testRepo.git('config flowgit.tracked "feature"');
+      testRepo.git('config flowgit.branch.feature.parent "main"');
+
+      await runCommand(["restack", "main"], testRepo);
+
+      expect(mockExecutor.getCallsMatching("git rebase main").length).toBe(1);
+      expect(testRepo.branchBase("feature")).toBe(
+        testRepo.git("rev-parse main"),
+      );
+    });
+  });
+
+  describe("--all", () => {
+    it("rebases every tracked stack onto updated trunk", async () => {
+      // Arrange - two stacks: main → a → b and main → x
+      testRepo.git("checkout -b branch-a");
+      testRepo.writeFile("a.ts", "a");
+      testRepo.git("add a.ts");
+      testRepo.git('commit -m "A"');
+
+      testRepo.git("checkout -b branch-b");
+      testRepo.writeFile("b.ts", "b");
+      testRepo.git("add b.ts");
+      testRepo.git('commit -m "B"');
+
+      testRepo.git("checkout main");
+      testRepo.git("checkout -b branch-x");
+      testRepo.writeFile("x.ts", "x");
+      testRepo.git("add x.ts");
+      testRepo.git('commit -m "X"');
+
+      testRepo.git("checkout main");
+      testRepo.writeFile("main.ts", "main update");
+      testRepo.git("add main.ts");
+      testRepo.git('commit -m "Main update"');
+
+      testRepo.git('config flowgit.tracked "branch-b,branch-x,branch-a"');
+      testRepo.git('config flowgit.branch.branch-a.parent "main"');
+      testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+      testRepo.git('config flowgit.branch.branch-x.parent "main"');
+
+      // Act
+      await runCommand(["restack", "--all"], testRepo);
+
+      // Assert - every branch contains the main update, back on main
+      expect(testRepo.currentBranch()).toBe("main");
+      expect(testRepo.git("merge-base --is-ancestor main branch-a && echo yes")).toBe("yes");
+      expect(testRepo.git("merge-base --is-ancestor branch-a branch-b && echo yes")).toBe("yes");
+      expect(testRepo.git("merge-base --is-ancestor main branch-b && echo yes")).toBe("yes");
+      expect(testRepo.git("merge-base --is-ancestor main branch-x && echo yes")).toBe("yes");
+    });
+
+    it("skips conflicting branches and their descendants", async () => {
+      // Arrange - main → conflicting → child, and main → clean
+      testRepo.writeFile("shared.ts", "base");
+      testRepo.git("add shared.ts");
+      testRepo.git('commit -m "Shared"');
+
+      testRepo.git("checkout -b conflicting");
+      testRepo.writeFile("shared.ts", "branch version");
+      testRepo.git("add shared.ts");
+      testRepo.git('commit -m "Branch change"');
+
+      testRepo.git("checkout -b child");
+      testRepo.writeFile("child.ts", "child");
+      testRepo.git("add child.ts");
+      testRepo.git('commit -m "Child"');
+
+      testRepo.git("checkout main");
+      testRepo.git("checkout -b clean");
+      testRepo.writeFile("clean.ts", "clean");
+      testRepo.git("add clean.ts");
+      testRepo.git('commit -m "Clean"');
+
+      testRepo.git("checkout main");
+      testRepo.writeFile("shared.ts", "main version");
+      testRepo.git("add shared.ts");
+      testRepo.git('commit -m "Main change"');
+
+      testRepo.git("checkout clean");
+      testRepo.git('config flowgit.tracked "conflicting,child,clean"');
+      testRepo.git('config flowgit.branch.conflicting.parent "main"');
+      testRepo.git('config flowgit.branch.child.parent "conflicting"');
+      testRepo.git('config flowgit.branch.clean.parent "main"');
+
+      const childBefore = testRepo.git("rev-parse child");
+
+      // Act - should not exit despite the conflict
+      await runCommand(["restack", "--all"], testRepo);
+
+      // Assert - clean branch restacked, conflicting branch untouched, no rebase in progress
+      expect(testRepo.currentBranch()).toBe("clean");
+      expect(testRepo.readFile("shared.ts")).toBe("main version");
+      expect(testRepo.git("rev-parse child")).toBe(childBefore);
+      expect(testRepo.isClean()).toBe(true);
+      expect(mockExecutor.getCallsMatching("git rebase --abort").length).toBe(1);
+      expect(mockExecutor.getCallsMatching("git checkout child").length).toBe(0);
+    });
+
+    it("errors when combined with a parent branch", async () => {
+      testRepo.git("checkout -b feature");
+
+      await expect(
+        runCommand(["restack", "main", "--all"], testRepo),
+      ).rejects.toThrow("process.exit(1)");
+    });
+
+    it("refuses to run with uncommitted changes", async () => {
+      testRepo.git("checkout -b feature");
+      testRepo.git('config flowgit.tracked "feature"');
+      testRepo.git('config flowgit.branch.feature.parent "main"');
+      testRepo.writeFile(".gitkeep", "changed");
+
+      await expect(runCommand(["restack", "--all"], testRepo)).rejects.toThrow("process.exit(1)");
+
+      expect(mockExecutor.getCallsMatching("git rebase")).toHaveLength(0);
+      expect(testRepo.readFile(".gitkeep")).toBe("changed");
+    });
+
+    it("runs when the only change is an untracked file", async () => {
+      testRepo.git("checkout -b feature");
+      testRepo.writeFile("feature.ts", "feature");
+      testRepo.git("add feature.ts");
+      testRepo.git('commit -m "Feature"');
+      testRepo.git("checkout main");
+      testRepo.writeFile("main.ts", "main update");
+      testRepo.git("add main.ts");
+      testRepo.git('commit -m "Main update"');
+      testRepo.git('config flowgit.tracked "feature"');
+      testRepo.git('config flowgit.branch.feature.parent "main"');
+      testRepo.writeFile("notes.txt", "scratch");
+
+      await runCommand(["restack", "--all"], testRepo);
+
+      expect(testRepo.git("merge-base --is-ancestor main feature && echo yes")).toBe("yes");
+      expect(testRepo.readFile("notes.txt")).toBe("scratch");
+    });
+  });
 });
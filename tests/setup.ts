@@ -33,6 +33,10 @@ jest.mock('@inquirer/prompts', () => ({
     if (mockAnswers.confirmed !== undefined) return mockAnswers.confirmed;
     return options.default ?? true;
   }),
+  editor: jest.fn(async (options: any) => {
+    if (mockAnswers.edited !== undefined) return mockAnswers.edited;
+    return options.default ?? '';
+  }),
   checkbox: jest.fn(async (options: any) => {
     if (mockAnswers.selected !== undefined) return mockAnswers.selected;
     return [];
@@ -0,0 +1,150 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt split", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * main → feature (api.ts, ui.ts, old.ts removed)
+   */
+  function createFeatureBranch(): void {
+    testRepo.writeFile("old.ts", "old");
+    testRepo.git("add old.ts");
+    testRepo.git('commit -m "Old"');
+
+    testRepo.git("checkout -b feature");
+    testRepo.writeFile("api.ts", "api");
+    testRepo.writeFile("ui.ts", "ui");
+    testRepo.git("rm -q old.ts");
+    testRepo.git("add api.ts ui.ts");
+    testRepo.git('commit -m "Feature"');
+
+    testRepo.git('config flowgit.tracked "feature"');
+    testRepo.git('config flowgit.branch.feature.parent "main"');
+  }
+
+  /**
+   * Answer the file selection and commit message prompts once per split part
+   */
+  function answerParts(parts: Array<{ files: string[]; message: string }>): void {
+    const { checkbox, input } = jest.requireMock("@inquirer/prompts");
+    parts.forEach(part => {
+      checkbox.mockResolvedValueOnce(part.files);
+      input.mockResolvedValueOnce(part.message);
+    });
+  }
+
+  it("splits a branch into a chain of stacked branches", async () => {
+    createFeatureBranch();
+    answerParts([
+      { files: ["api.ts"], message: "Add API" },
+      { files: ["ui.ts", "old.ts"], message: "Add UI" },
+    ]);
+    const originalTree = testRepo.git("rev-parse feature^{tree}");
+
+    // Act
+    await runCommand(["split"], testRepo);
+
+    // Assert - one commit per part, stacked in order
+    expect(testRepo.git("log --format=%s main..add-api")).toBe("Add API");
+    expect(testRepo.git("log --format=%s add-api..add-ui")).toBe("Add UI");
+    expect(testRepo.git("show --name-only --format= add-api")).toBe("api.ts");
+    expect(testRepo.parentBranch("add-api")).toBe("main");
+    expect(testRepo.parentBranch("add-ui")).toBe("add-api");
+    expect(testRepo.branchBase("add-ui")).toBe(testRepo.git("rev-parse add-api"));
+
+    // The last part ends up with the original branch's content
+    expect(testRepo.git("rev-parse add-ui^{tree}")).toBe(originalTree);
+    expect(testRepo.currentBranch()).toBe("add-ui");
+  });
+
+  it("deletes and untracks the original branch", async () => {
+    createFeatureBranch();
+    answerParts([
+      { files: ["api.ts"], message: "Add API" },
+      { files: ["ui.ts", "old.ts"], message: "Add UI" },
+    ]);
+
+    await runCommand(["split"], testRepo);
+
+    expect(testRepo.branchExists("feature")).toBe(false);
+    expect(testRepo.trackedBranches()).toEqual(["add-api", "add-ui"]);
+  });
+
+  it("keeps the original branch when declined", async () => {
+    createFeatureBranch();
+    answerParts([
+      { files: ["api.ts"], message: "Add API" },
+      { files: ["ui.ts", "old.ts"], message: "Add UI" },
+    ]);
+
+    await runCommand(["split"], testRepo, { prompts: { confirmed: false } });
+
+    expect(testRepo.branchExists("feature")).toBe(true);
+    expect(testRepo.trackedBranches()).not.toContain("feature");
+  });
+
+  it("moves children of the original branch onto the last part", async () => {
+    createFeatureBranch();
+    testRepo.git("checkout -b child");
+    testRepo.writeFile("child.ts", "child");
+    testRepo.git("add child.ts");
+    testRepo.git('commit -m "Child"');
+    testRepo.git('config flowgit.tracked "feature,child"');
+    testRepo.git('config flowgit.branch.child.parent "feature"');
+    testRepo.git("checkout feature");
+
+    answerParts([
+      { files: ["api.ts"], message: "Add API" },
+      { files: ["ui.ts", "old.ts"], message: "Add UI" },
+    ]);
+
+    await runCommand(["split"], testRepo);
+
+    expect(testRepo.parentBranch("child")).toBe("add-ui");
+    expect(testRepo.git("log --format=%s add-ui..child")).toBe("Child");
+  });
+
+  it("cancels without changes when no files are selected", async () => {
+    createFeatureBranch();
+
+    await runCommand(["split"], testRepo, { prompts: { selected: [] } });
+
+    expect(testRepo.currentBranch()).toBe("feature");
+    expect(testRepo.trackedBranches()).toEqual(["feature"]);
+  });
+
+  it("errors with uncommitted changes", async () => {
+    createFeatureBranch();
+    testRepo.writeFile("dirty.ts", "dirty");
+
+    await expect(runCommand(["split"], testRepo)).rejects.toThrow("process.exit(1)");
+  });
+
+  it("errors on trunk", async () => {
+    await expect(runCommand(["split"], testRepo)).rejects.toThrow("process.exit(1)");
+  });
+
+  it("errors when a part's branch name already exists", async () => {
+    createFeatureBranch();
+    testRepo.git("branch add-api main");
+    answerParts([{ files: ["api.ts"], message: "Add API" }]);
+
+    await expect(runCommand(["split"], testRepo)).rejects.toThrow("process.exit(1)");
+    expect(testRepo.currentBranch()).toBe("feature");
+  });
+});
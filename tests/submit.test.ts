@@ -1,8 +1,10 @@
 import { TestRepository } from "./helpers/testRepo";
 import { runCommand } from "./helpers/runCommand";
 import { MockExecutor } from "./helpers/mockExecutor";
+import { mockBranchPRs, MockPR } from "./helpers/github";
 import { setExecutor, resetExecutor } from "../src/lib/executor";
 import * as claude from "../src/lib/claude";
+import { readFileSync } from "fs";
 
 jest.mock("../src/lib/claude");
 const mockClaude = claude as jest.Mocked<typeof claude>;
@@ -42,7 +44,7 @@ describe("fgt submit", () => {
       const remote = testRepo.createRemote();
 
       // Mock gh commands
-      mockExecutor.onCommand("gh pr list --head feature-branch").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       // gh pr create returns URL
       mockExecutor
         .onCommand(/gh pr create/)
@@ -72,17 +74,9 @@ describe("fgt submit", () => {
       const remote = testRepo.createRemote();
 
       // Mock gh to return existing PR
-      mockExecutor.onCommand("gh pr list --head feature-branch").returns(
-        JSON.stringify([
-          {
-            number: 456,
-            title: "Add feature",
-            url: "https://github.com/test/repo/pull/456",
-            state: "OPEN",
-            merged: false,
-          },
-        ]),
-      );
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456" },
+      });
 
       // Act - confirm defaults to false, so description is not updated
       await runCommand(["submit", "--current"], testRepo);
@@ -91,7 +85,7 @@ describe("fgt submit", () => {
       const calls = mockExecutor.getCalls();
       expect(calls.some((c) => c.includes("gh pr create"))).toBe(false);
       expect(calls.some((c) => c.includes("gh pr edit"))).toBe(false);
-      expect(calls.some((c) => c.includes("gh pr list"))).toBe(true);
+      expect(calls.some((c) => c.includes("gh api graphql"))).toBe(true);
     });
 
     it("updates PR description when user opts in", async () => {
@@ -101,17 +95,9 @@ describe("fgt submit", () => {
       mockClaude.isClaudeInstalled.mockReturnValue(true);
       mockClaude.generatePRDescription.mockReturnValue("Generated description");
 
-      mockExecutor.onCommand("gh pr list --head feature-branch").returns(
-        JSON.stringify([
-          {
-            number: 456,
-            title: "Add feature",
-            url: "https://github.com/test/repo/pull/456",
-            state: "OPEN",
-            merged: false,
-          },
-        ]),
-      );
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456" },
+      });
       mockExecutor.onCommand(/gh pr edit/).returns("");
 
       // Act - user opts in to updating description
@@ -126,23 +112,43 @@ describe("fgt submit", () => {
       expect(mockClaude.generatePRDescription).toHaveBeenCalled();
     });
 
+    it("retargets an existing PR whose base differs from the parent", async () => {
+      // Arrange - PR still targets a branch the parent was moved off
+      testRepo.createRemote();
+
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456", baseRefName: "old-parent" },
+      });
+      mockExecutor.onCommand(/gh pr edit/).returns("");
+
+      // Act
+      await runCommand(["submit", "--current"], testRepo);
+
+      // Assert
+      expect(mockExecutor.getCallsMatching("gh pr edit 456 --base main")).toHaveLength(1);
+    });
+
+    it("does not retarget a PR whose base matches the parent", async () => {
+      testRepo.createRemote();
+
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456", baseRefName: "main" },
+      });
+
+      await runCommand(["submit", "--current"], testRepo);
+
+      expect(mockExecutor.getCallsMatching("--base")).toHaveLength(0);
+    });
+
     it("skips description update when Claude is not installed", async () => {
       // Arrange
       const remote = testRepo.createRemote();
 
       mockClaude.isClaudeInstalled.mockReturnValue(false);
 
-      mockExecutor.onCommand("gh pr list --head feature-branch").returns(
-        JSON.stringify([
-          {
-            number: 456,
-            title: "Add feature",
-            url: "https://github.com/test/repo/pull/456",
-            state: "OPEN",
-            merged: false,
-          },
-        ]),
-      );
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456" },
+      });
 
       // Act - user opts in but Claude is not available
       await runCommand(["submit", "--current"], testRepo, {
@@ -164,7 +170,7 @@ describe("fgt submit", () => {
       testRepo.git("add feature2.ts");
       testRepo.git('commit -m "Add more features"');
 
-      mockExecutor.onCommand("gh pr list --head feature-branch").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/123");
@@ -198,7 +204,7 @@ describe("fgt submit", () => {
 
       const remote = testRepo.createRemote();
 
-      mockExecutor.onCommand("gh pr list --head linear-feature").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/789");
@@ -238,7 +244,7 @@ describe("fgt submit", () => {
 
       const remote = testRepo.createRemote();
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/100");
@@ -293,7 +299,7 @@ describe("fgt submit", () => {
       // Arrange
       const remote = testRepo.createRemote();
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor.onCommand(/gh pr create/).returns((cmd) => {
         // Return URLs based on branch
         if (cmd.includes("api-layer")) {
@@ -343,7 +349,7 @@ describe("fgt submit", () => {
       // Arrange
       const remote = testRepo.createRemote();
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -393,29 +399,10 @@ describe("fgt submit", () => {
       testRepo.git("push -u origin ui-layer");
 
       // Mock that parent branches already have PRs
-      mockExecutor.onCommand("gh pr list --head api-layer").returns(
-        JSON.stringify([
-          {
-            number: 1,
-            title: "Add API layer",
-            url: "https://github.com/test/repo/pull/1",
-            state: "OPEN",
-            merged: false,
-          },
-        ]),
-      );
-      mockExecutor.onCommand("gh pr list --head business-logic").returns(
-        JSON.stringify([
-          {
-            number: 2,
-            title: "Add business logic",
-            url: "https://github.com/test/repo/pull/2",
-            state: "OPEN",
-            merged: false,
-          },
-        ]),
-      );
-      mockExecutor.onCommand("gh pr list --head ui-layer").returns("[]");
+      mockBranchPRs(mockExecutor, {
+        "api-layer": { number: 1, title: "Add API layer", url: "https://github.com/test/repo/pull/1" },
+        "business-logic": { number: 2, title: "Add business logic", url: "https://github.com/test/repo/pull/2" },
+      });
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/3");
@@ -437,6 +424,274 @@ describe("fgt submit", () => {
       expect(createCalls.length).toBe(1);
       expect(createCalls[0]).toContain("Add UI layer");
     });
+
+    describe("stack section in PR descriptions", () => {
+      const bodies: Record<string, string> = {};
+
+      beforeEach(() => {
+        testRepo.createRemote();
+
+        // All three branches already have PRs 1-3, whose bodies are read at lookup time
+        bodies["1"] = "";
+        bodies["2"] = "Human-written description";
+        bodies["3"] =
+          "Intro\n\n<!-- flowgit-stack-start -->\nold stack\n<!-- flowgit-stack-end -->\n\nOutro";
+        const prs: Record<string, MockPR> = {};
+        const stack = [["api-layer", "main"], ["business-logic", "api-layer"], ["ui-layer", "business-logic"]];
+        for (const [i, [branch, baseRefName]] of stack.entries()) {
+          const number = i + 1;
+          prs[branch] = {
+            number,
+            title: branch,
+            baseRefName,
+            get body() {
+              return bodies[String(number)];
+            },
+          };
+        }
+        mockBranchPRs(mockExecutor, prs);
+        mockExecutor.onCommand(/gh pr edit \d+ --body-file/).returns((cmd) => {
+          const file = cmd.match(/--body-file '([^']+)'/)![1];
+          bodies[cmd.match(/edit (\d+)/)![1]] = readFileSync(file, "utf-8");
+          return "";
+        });
+      });
+
+      it("adds a stack section with the current PR highlighted", async () => {
+        // Act
+        await runCommand(["submit"], testRepo);
+
+        // Assert - tip first, trunk last, each PR highlights itself
+        expect(bodies["2"]).toContain("Human-written description");
+        expect(bodies["2"]).toContain(
+          "- #3 `ui-layer`\n- **#2 `business-logic`** 👈\n- #1 `api-layer`\n- `main`",
+        );
+        expect(bodies["1"]).toContain("- **#1 `api-layer`** 👈");
+      });
+
+      it("replaces an existing stack section without touching the rest", async () => {
+        await runCommand(["submit"], testRepo);
+
+        expect(bodies["3"]).toMatch(/^Intro\n\n<!-- flowgit-stack-start -->/);
+        expect(bodies["3"]).toMatch(/<!-- flowgit-stack-end -->\n\nOutro$/);
+        expect(bodies["3"]).not.toContain("old stack");
+        expect(bodies["3"].match(/flowgit-stack-start/g)).toHaveLength(1);
+      });
+
+      it("does not edit PRs whose stack section is already current", async () => {
+        await runCommand(["submit"], testRepo);
+        mockExecutor.clearCalls();
+
+        await runCommand(["submit"], testRepo);
+
+        expect(mockExecutor.getCallsMatching("gh pr edit")).toHaveLength(0);
+      });
+
+      it("only updates the current PR with --current", async () => {
+        await runCommand(["submit", "--current"], testRepo);
+
+        expect(mockExecutor.getCallsMatching(/gh pr edit \d+/)).toEqual([
+          expect.stringContaining("gh pr edit 3"),
+        ]);
+        expect(bodies["1"]).toBe("");
+      });
+    });
+  });
+
+  describe("draft PRs", () => {
+    beforeEach(() => {
+      testRepo.git("checkout -b feature-branch");
+      testRepo.writeFile("feature.ts", "feature code");
+      testRepo.git("add feature.ts");
+      testRepo.git('commit -m "Add feature"');
+      testRepo.git('config flowgit.tracked "feature-branch"');
+      testRepo.git('config flowgit.branch.feature-branch.parent "main"');
+      testRepo.createRemote();
+    });
+
+    function mockNewPR(): void {
+      mockBranchPRs(mockExecutor, {});
+      mockExecutor
+        .onCommand(/gh pr create/)
+        .returns("https://github.com/test/repo/pull/123");
+      mockExecutor.onCommand(/gh pr view.*--json/).returns(
+        JSON.stringify({
+          number: 123,
+          title: "Add feature",
+          url: "https://github.com/test/repo/pull/123",
+          state: "OPEN",
+        }),
+      );
+    }
+
+    function mockExistingPR(isDraft: boolean): void {
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456", isDraft },
+      });
+      mockExecutor.onCommand("gh pr ready").returns("");
+    }
+
+    it("creates a draft PR with --draft", async () => {
+      mockNewPR();
+
+      await runCommand(["submit", "--current", "--draft"], testRepo);
+
+      const createCall = mockExecutor.getCallsMatching("gh pr create")[0];
+      expect(createCall).toContain("--draft");
+    });
+
+    it("creates ready PRs by default", async () => {
+      mockNewPR();
+
+      await runCommand(["submit", "--current"], testRepo);
+
+      const createCall = mockExecutor.getCallsMatching("gh pr create")[0];
+      expect(createCall).not.toContain("--draft");
+    });
+
+    it("creates drafts when configured as the repo default", async () => {
+      testRepo.git("config flowgit.submit.draft true");
+      mockNewPR();
+
+      await runCommand(["submit", "--current"], testRepo);
+
+      const createCall = mockExecutor.getCallsMatching("gh pr create")[0];
+      expect(createCall).toContain("--draft");
+    });
+
+    it("overrides the draft default with --ready", async () => {
+      testRepo.git("config flowgit.submit.draft true");
+      mockNewPR();
+
+      await runCommand(["submit", "--current", "--ready"], testRepo);
+
+      const createCall = mockExecutor.getCallsMatching("gh pr create")[0];
+      expect(createCall).not.toContain("--draft");
+    });
+
+    it("marks an existing draft ready with --ready", async () => {
+      mockExistingPR(true);
+
+      await runCommand(["submit", "--current", "--ready"], testRepo);
+
+      expect(mockExecutor.getCallsMatching("gh pr ready 456")).toHaveLength(1);
+    });
+
+    it("leaves existing drafts alone without --ready", async () => {
+      mockExistingPR(true);
+
+      await runCommand(["submit", "--current"], testRepo);
+
+      expect(mockExecutor.getCallsMatching("gh pr ready")).toHaveLength(0);
+    });
+
+    it("errors when both --draft and --ready are given", async () => {
+      await expect(
+        runCommand(["submit", "--draft", "--ready"], testRepo),
+      ).rejects.toThrow("process.exit(1)");
+    });
+  });
+
+  describe("reviewers, labels, assignees and milestone", () => {
+    beforeEach(() => {
+      testRepo.git("checkout -b feature-branch");
+      testRepo.writeFile("feature.ts", "feature code");
+      testRepo.git("add feature.ts");
+      testRepo.git('commit -m "Add feature"');
+      testRepo.git('config flowgit.tracked "feature-branch"');
+      testRepo.git('config flowgit.branch.feature-branch.parent "main"');
+      testRepo.createRemote();
+    });
+
+    function mockNewPR(): void {
+      mockBranchPRs(mockExecutor, {});
+      mockExecutor
+        .onCommand(/gh pr create/)
+        .returns("https://github.com/test/repo/pull/123");
+      mockExecutor.onCommand(/gh pr view.*--json/).returns(
+        JSON.stringify({
+          number: 123,
+          title: "Add feature",
+          url: "https://github.com/test/repo/pull/123",
+          state: "OPEN",
+        }),
+      );
+    }
+
+    it("passes options to new PRs", async () => {
+      mockNewPR();
+
+      await runCommand(
+        [
+          "submit", "--current",
+          "--reviewer", "alice,bob",
+          "--label", "backend",
+          "--assignee", "@me",
+          "--milestone", "v2",
+        ],
+        testRepo,
+      );
+
+      const createCall = mockExecutor.getCallsMatching("gh pr create")[0];
+      expect(createCall).toContain("--reviewer 'alice,bob'");
+      expect(createCall).toContain("--label 'backend'");
+      expect(createCall).toContain("--assignee '@me'");
+      expect(createCall).toContain("--milestone 'v2'");
+    });
+
+    it("applies repo defaults to new PRs", async () => {
+      testRepo.git('config flowgit.submit.reviewers "carol"');
+      testRepo.git('config flowgit.submit.labels "stacked"');
+      mockNewPR();
+
+      await runCommand(["submit", "--current", "--reviewer", "alice"], testRepo);
+
+      const createCall = mockExecutor.getCallsMatching("gh pr create")[0];
+      expect(createCall).toContain("--reviewer 'carol,alice'");
+      expect(createCall).toContain("--label 'stacked'");
+    });
+
+    it("adds requested options to existing PRs", async () => {
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456" },
+      });
+      mockExecutor.onCommand(/gh pr edit/).returns("");
+
+      await runCommand(["submit", "--current", "--label", "backend"], testRepo);
+
+      expect(mockExecutor.getCallsMatching("gh pr edit 456 --add-label 'backend'")).toHaveLength(1);
+    });
+
+    it("does not apply repo defaults to existing PRs", async () => {
+      testRepo.git('config flowgit.submit.reviewers "carol"');
+      mockBranchPRs(mockExecutor, {
+        "feature-branch": { number: 456, title: "Add feature", url: "https://github.com/test/repo/pull/456" },
+      });
+
+      await runCommand(["submit", "--current"], testRepo);
+
+      expect(mockExecutor.getCallsMatching("gh pr edit")).toHaveLength(0);
+    });
+
+    it("suggests code owners as reviewers with --codeowners", async () => {
+      testRepo.git("checkout main");
+      testRepo.writeFile(".github/CODEOWNERS", "* @default-owner\n*.ts @carol @org/frontend\n");
+      testRepo.git("add .github/CODEOWNERS");
+      testRepo.git('commit -m "Add CODEOWNERS"');
+      testRepo.git("checkout feature-branch");
+      testRepo.git("rebase main");
+      mockNewPR();
+
+      await runCommand(["submit", "--current", "--codeowners"], testRepo, {
+        prompts: { selected: ["carol"] },
+      });
+
+      const { checkbox } = jest.requireMock("@inquirer/prompts");
+      const choices = checkbox.mock.calls[0][0].choices.map((c: any) => c.value);
+      expect(choices).toEqual(["carol", "org/frontend"]);
+      const createCall = mockExecutor.getCallsMatching("gh pr create")[0];
+      expect(createCall).toContain("--reviewer 'carol'");
+    });
   });
 
   describe("remote operations", () => {
@@ -460,7 +715,7 @@ describe("fgt submit", () => {
         // Might not have upstream yet
       }
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -488,7 +743,7 @@ describe("fgt submit", () => {
       const remote = testRepo.createRemote();
       testRepo.git("push -u origin test-branch");
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -525,7 +780,7 @@ describe("fgt submit", () => {
       // Simulate remote being ahead by amending local commit
       testRepo.git('commit --amend -m "Amended test"');
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -558,7 +813,7 @@ describe("fgt submit", () => {
       // Simulate remote being ahead
       testRepo.git('commit --amend -m "Amended test"');
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -588,7 +843,7 @@ describe("fgt submit", () => {
       const remote = testRepo.createRemote();
       testRepo.git("push -u origin test-branch");
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -665,7 +920,7 @@ describe("fgt submit", () => {
 
       const remote = testRepo.createRemote();
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor.onCommand(/gh pr create/).returns(() => {
         throw new Error("API rate limit exceeded");
       });
@@ -690,7 +945,7 @@ describe("fgt submit", () => {
 
       const remote = testRepo.createRemote();
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -723,7 +978,7 @@ describe("fgt submit", () => {
 
       const remote = testRepo.createRemote();
 
-      mockExecutor.onCommand("gh pr list").returns("[]");
+      mockBranchPRs(mockExecutor, {});
       mockExecutor
         .onCommand(/gh pr create/)
         .returns("https://github.com/test/repo/pull/1");
@@ -2,6 +2,8 @@ import { TestRepository } from "./helpers/testRepo";
 import { runCommand } from "./helpers/runCommand";
 import { MockExecutor } from "./helpers/mockExecutor";
 import { setExecutor, resetExecutor } from "../src/lib/executor";
+import { mockBranchPRs } from "./helpers/github";
+import { setJsonMode } from "../src/lib/output";
 
 describe("fgt sync", () => {
   let testRepo: TestRepository;
@@ -102,6 +104,56 @@ describe("fgt sync", () => {
       expect(tracked).toContain("merged-feature");
     });
 
+    it("does not treat a branch as merged because a longer name is", async () => {
+      // Arrange - fix-login is merged, fix is not
+      testRepo.createRemote();
+      testRepo.git("checkout -b fix-login");
+      testRepo.writeFile("login.ts", "code");
+      testRepo.git("add login.ts");
+      testRepo.git('commit -m "Fix login"');
+      testRepo.git("checkout main");
+      testRepo.git('merge fix-login --no-ff -m "Merge fix-login"');
+      testRepo.git("push origin main");
+
+      testRepo.git("checkout -b fix");
+      testRepo.writeFile("fix.ts", "code");
+      testRepo.git("add fix.ts");
+      testRepo.git('commit -m "Fix"');
+      testRepo.git("checkout main");
+      testRepo.git('config flowgit.tracked "fix,fix-login"');
+
+      // Act
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+      // Assert
+      expect(testRepo.branchExists("fix-login")).toBe(false);
+      expect(testRepo.branchExists("fix")).toBe(true);
+      expect(testRepo.trackedBranches()).toEqual(["fix"]);
+    });
+
+    it("shows why each branch was classified", async () => {
+      // Arrange
+      testRepo.createRemote();
+      testRepo.git("checkout -b pushed");
+      testRepo.writeFile("pushed.ts", "code");
+      testRepo.git("add pushed.ts");
+      testRepo.git('commit -m "Pushed"');
+      testRepo.git("push -u origin pushed");
+      testRepo.writeFile("local.ts", "code");
+      testRepo.git("add local.ts");
+      testRepo.git('commit -m "Local"');
+      testRepo.git("checkout main");
+      testRepo.git('config flowgit.tracked "pushed"');
+      (console.log as jest.Mock).mockClear();
+
+      // Act
+      await runCommand(["sync"], testRepo);
+
+      // Assert
+      expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/^Branch\s+Status\s+Detail/));
+      expect(console.log).toHaveBeenCalledWith("pushed  up-to-date  1 unpushed commit(s)");
+    });
+
     it("detects branches behind remote", async () => {
       // Arrange
       const remote = testRepo.createRemote();
@@ -491,6 +543,67 @@ describe("fgt sync", () => {
       expect(testRepo.trackedBranches()).toContain("level2");
       expect(testRepo.trackedBranches()).toContain("level3");
     });
+
+    it("restacks and pushes children of a squash-merged parent", async () => {
+      // Arrange - main → parent → child, parent squash-merged on the remote
+      testRepo.createRemote();
+      testRepo.git("checkout -b parent");
+      testRepo.writeFile("parent.ts", "parent");
+      testRepo.git("add parent.ts");
+      testRepo.git('commit -m "Add parent"');
+      testRepo.git("push -u origin parent");
+      testRepo.git("checkout -b child");
+      testRepo.writeFile("child.ts", "child");
+      testRepo.git("add child.ts");
+      testRepo.git('commit -m "Add child"');
+      testRepo.git("push -u origin child");
+      testRepo.git('config flowgit.branch.parent.parent "main"');
+      testRepo.git('config flowgit.branch.child.parent "parent"');
+      testRepo.git('config flowgit.tracked "parent,child"');
+
+      testRepo.git("checkout main");
+      testRepo.git("merge --squash parent");
+      testRepo.git('commit -m "Add parent (#1)"');
+      testRepo.git("push origin main");
+
+      // Act
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+      // Assert - only the child's own commit is left on top of main, locally and on origin
+      expect(testRepo.parentBranch("child")).toBe("main");
+      expect(testRepo.git("log --format=%s main..child")).toBe("Add child");
+      expect(testRepo.git("rev-parse origin/child")).toBe(testRepo.git("rev-parse child"));
+      expect(testRepo.currentBranch()).toBe("main");
+    });
+
+    it("leaves adopted children alone when the restack is declined", async () => {
+      testRepo.createRemote();
+      testRepo.git("checkout -b parent");
+      testRepo.writeFile("parent.ts", "parent");
+      testRepo.git("add parent.ts");
+      testRepo.git('commit -m "Add parent"');
+      testRepo.git("checkout -b child");
+      testRepo.writeFile("child.ts", "child");
+      testRepo.git("add child.ts");
+      testRepo.git('commit -m "Add child"');
+      testRepo.git('config flowgit.branch.parent.parent "main"');
+      testRepo.git('config flowgit.branch.child.parent "parent"');
+      testRepo.git('config flowgit.tracked "parent,child"');
+      testRepo.git("checkout main");
+      testRepo.git("merge --squash parent");
+      testRepo.git('commit -m "Add parent (#1)"');
+      testRepo.git("push origin main");
+      const before = testRepo.git("rev-parse child");
+      // Delete the merged parent, decline the restack
+      jest.requireMock("@inquirer/prompts").confirm
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      await runCommand(["sync"], testRepo, { prompts: {} });
+
+      expect(testRepo.branchExists("parent")).toBe(false);
+      expect(testRepo.git("rev-parse child")).toBe(before);
+    });
   });
 
   describe("remote PR status detection", () => {
@@ -509,13 +622,9 @@ describe("fgt sync", () => {
 
       // Mock gh: authenticated, PR is MERGED
       mockExecutor.onCommand("gh auth status").returns("");
-      mockExecutor
-        .onCommand("gh pr list --state all")
-        .returns(
-          JSON.stringify([
-            { headRefName: "squash-merged", state: "MERGED", merged: true },
-          ]),
-        );
+      mockBranchPRs(mockExecutor, {
+        "squash-merged": { number: 1, state: "MERGED", merged: true },
+      });
 
       // Act - confirm deletion
       await runCommand(["sync"], testRepo, {
@@ -542,13 +651,9 @@ describe("fgt sync", () => {
 
       // Mock gh: authenticated, PR is CLOSED (not merged)
       mockExecutor.onCommand("gh auth status").returns("");
-      mockExecutor
-        .onCommand("gh pr list --state all")
-        .returns(
-          JSON.stringify([
-            { headRefName: "closed-pr", state: "CLOSED", merged: false },
-          ]),
-        );
+      mockBranchPRs(mockExecutor, {
+        "closed-pr": { number: 1, state: "CLOSED", merged: false },
+      });
 
       // Act - confirm deletion of closed PR branches
       await runCommand(["sync"], testRepo, {
@@ -575,13 +680,9 @@ describe("fgt sync", () => {
 
       // Mock gh: authenticated, PR is OPEN
       mockExecutor.onCommand("gh auth status").returns("");
-      mockExecutor
-        .onCommand("gh pr list --state all")
-        .returns(
-          JSON.stringify([
-            { headRefName: "open-pr", state: "OPEN", merged: false },
-          ]),
-        );
+      mockBranchPRs(mockExecutor, {
+        "open-pr": { number: 1, state: "OPEN", merged: false },
+      });
 
       // Act
       await runCommand(["sync"], testRepo);
@@ -618,6 +719,162 @@ describe("fgt sync", () => {
     });
   });
 
+  describe("squash-merge detection without a PR", () => {
+    beforeEach(() => {
+      (console.log as jest.Mock).mockClear();
+    });
+
+    /**
+     * feature: two commits on shared.ts and feature.ts, never pushed
+     */
+    function createFeature(): void {
+      testRepo.createRemote();
+      testRepo.git("checkout -b feature");
+      testRepo.writeFile("shared.ts", "feature version");
+      testRepo.git("add shared.ts");
+      testRepo.git('commit -m "Change shared"');
+      testRepo.writeFile("feature.ts", "feature");
+      testRepo.git("add feature.ts");
+      testRepo.git('commit -m "Add feature"');
+      testRepo.git('config flowgit.tracked "feature"');
+      testRepo.git("checkout main");
+    }
+
+    function squashIntoMain(): void {
+      testRepo.git("merge --squash feature");
+      testRepo.git('commit -m "Feature (#1)"');
+    }
+
+    it("detects a squash merge on trunk", async () => {
+      createFeature();
+      squashIntoMain();
+      testRepo.git("push origin main");
+
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+      expect(console.log).toHaveBeenCalledWith("feature  squash-detected  changes already on main");
+      expect(testRepo.branchExists("feature")).toBe(false);
+    });
+
+    it("detects a squash merge after trunk changed the same lines again", async () => {
+      // Arrange - merging feature again would now conflict
+      createFeature();
+      squashIntoMain();
+      testRepo.writeFile("shared.ts", "later version");
+      testRepo.git("add shared.ts");
+      testRepo.git('commit -m "Rework shared"');
+      testRepo.git("push origin main");
+
+      // Act
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+      // Assert
+      expect(console.log).toHaveBeenCalledWith("feature  squash-detected  changes already on main");
+    });
+
+    it("detects commits cherry-picked onto trunk", async () => {
+      createFeature();
+      testRepo.writeFile("other.ts", "other");
+      testRepo.git("add other.ts");
+      testRepo.git('commit -m "Unrelated change"');
+      testRepo.git("cherry-pick main..feature");
+      testRepo.git("push origin main");
+
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: false } });
+
+      expect(console.log).toHaveBeenCalledWith("feature  squash-detected  changes already on main");
+      expect(testRepo.branchExists("feature")).toBe(true);
+    });
+
+    it("keeps a branch holding only an empty commit", async () => {
+      testRepo.createRemote();
+      testRepo.git("checkout -b placeholder");
+      testRepo.git('commit --allow-empty -m "Placeholder"');
+      testRepo.git('config flowgit.tracked "placeholder"');
+      testRepo.git("checkout main");
+      testRepo.writeFile("other.ts", "other");
+      testRepo.git("add other.ts");
+      testRepo.git('commit -m "Unrelated change"');
+      testRepo.git("push origin main");
+
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+      expect(testRepo.branchExists("placeholder")).toBe(true);
+      expect(console.log).toHaveBeenCalledWith("placeholder  up-to-date  not pushed");
+    });
+
+    it("does not report a branch whose changes are only partly on trunk", async () => {
+      createFeature();
+      testRepo.git("checkout feature -- shared.ts");
+      testRepo.git('commit -m "Take shared from feature"');
+      testRepo.git("push origin main");
+
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+      expect(testRepo.branchExists("feature")).toBe(true);
+      expect(console.log).toHaveBeenCalledWith("feature  up-to-date  not pushed");
+    });
+  });
+
+  describe("PR retargeting", () => {
+    it("retargets adopted children's PRs to their new parent", async () => {
+      // Arrange - parent-pr was merged, child-pr still targets it
+      testRepo.createRemote();
+
+      testRepo.git("checkout -b parent-pr");
+      testRepo.writeFile("parent.ts", "parent");
+      testRepo.git("add parent.ts");
+      testRepo.git('commit -m "Parent"');
+      testRepo.git("push -u origin parent-pr");
+
+      testRepo.git("checkout -b child-pr");
+      testRepo.writeFile("child.ts", "child");
+      testRepo.git("add child.ts");
+      testRepo.git('commit -m "Child"');
+      testRepo.git("push -u origin child-pr");
+      testRepo.git("checkout main");
+
+      testRepo.git('config flowgit.tracked "parent-pr,child-pr"');
+      testRepo.git('config flowgit.branch.parent-pr.parent "main"');
+      testRepo.git('config flowgit.branch.child-pr.parent "parent-pr"');
+
+      mockExecutor.onCommand("gh auth status").returns("");
+      mockBranchPRs(mockExecutor, {
+        "parent-pr": { number: 1, state: "MERGED", merged: true, baseRefName: "main" },
+        "child-pr": { number: 2, state: "OPEN", baseRefName: "parent-pr" },
+      });
+      mockExecutor.onCommand("gh pr edit").returns("");
+
+      // Act
+      await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+      // Assert
+      expect(testRepo.parentBranch("child-pr")).toBe("main");
+      expect(mockExecutor.getCallsMatching("gh pr edit 2 --base main")).toHaveLength(1);
+    });
+
+    it("leaves PRs whose base already matches the parent", async () => {
+      testRepo.createRemote();
+
+      testRepo.git("checkout -b open-pr");
+      testRepo.writeFile("open.ts", "open");
+      testRepo.git("add open.ts");
+      testRepo.git('commit -m "Open"');
+      testRepo.git("push -u origin open-pr");
+      testRepo.git("checkout main");
+
+      testRepo.git('config flowgit.tracked "open-pr"');
+      testRepo.git('config flowgit.branch.open-pr.parent "main"');
+
+      mockExecutor.onCommand("gh auth status").returns("");
+      mockBranchPRs(mockExecutor, { "open-pr": { number: 3, state: "OPEN", baseRefName: "main" } });
+
+      await runCommand(["sync"], testRepo);
+
+      expect(mockExecutor.getCallsMatching("gh pr edit")).toHaveLength(0);
+    });
+  });
+
   describe("error handling", () => {
     it("fails when not in git repo", async () => {
       // Arrange
@@ -720,4 +977,52 @@ describe("fgt sync", () => {
       expect(testRepo.currentBranch()).toBe("main");
     });
   });
+
+  describe("JSON output", () => {
+    beforeEach(() => {
+      (console.log as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+      setJsonMode(false);
+    });
+
+    function printedJson(): any {
+      const calls = (console.log as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(1);
+      return JSON.parse(calls[0][0]);
+    }
+
+    it("prints merged, diverged and fast-forwarded branches as JSON only", async () => {
+      // Arrange
+      testRepo.createRemote();
+      testRepo.git("checkout -b merged-feature");
+      testRepo.writeFile("merged.ts", "code");
+      testRepo.git("add merged.ts");
+      testRepo.git('commit -m "Add merged feature"');
+      testRepo.git("push -u origin merged-feature");
+      testRepo.git("checkout main");
+      testRepo.git('merge merged-feature --no-ff -m "Merge merged-feature"');
+      testRepo.git("push origin main");
+      testRepo.git('config flowgit.tracked "merged-feature"');
+
+      // Act
+      await runCommand(["sync", "--json"], testRepo, { prompts: { confirmed: true } });
+
+      // Assert
+      expect(printedJson()).toEqual({
+        version: 1,
+        trunk: "main",
+        branches: [{ branch: "merged-feature", status: "merged-locally", detail: "reachable from main" }],
+        merged: [{ branch: "merged-feature", reason: "merged into trunk", status: "merged-locally", deleted: true }],
+        closed: [],
+        diverged: [],
+        fastForwarded: [],
+        retargeted: [],
+        restacked: [],
+        pushed: [],
+      });
+      expect(testRepo.branchExists("merged-feature")).toBe(false);
+    });
+  });
 });
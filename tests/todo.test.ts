@@ -2,6 +2,8 @@ import { TestRepository } from "./helpers/testRepo";
 import { runCommand } from "./helpers/runCommand";
 import { MockExecutor } from "./helpers/mockExecutor";
 import { setExecutor, resetExecutor } from "../src/lib/executor";
+import { mockPRSearch } from "./helpers/github";
+import { setJsonMode } from "../src/lib/output";
 
 describe("fgt todo", () => {
   let testRepo: TestRepository;
@@ -22,97 +24,52 @@ describe("fgt todo", () => {
   });
 
   it("should display message when no PRs or branches exist", async () => {
-    mockExecutor.onCommand("gh pr list").returns("[]");
+    mockPRSearch(mockExecutor, []);
 
     await expect(runCommand(["todo"], testRepo)).resolves.not.toThrow();
   });
 
   it("should fetch PRs requiring review", async () => {
-    const reviewRequestedPRs = JSON.stringify([
-      {
-        number: 123,
-        title: "Fix bug in login",
-        url: "https://github.com/user/repo/pull/123",
-        headRefName: "fix-login-bug",
-        isDraft: false,
-        state: "OPEN",
-        reviewDecision: null,
-        statusCheckRollup: [],
-      },
+    mockPRSearch(mockExecutor, [
+      [
+        {
+          number: 123,
+          title: "Fix bug in login",
+          headRefName: "fix-login-bug",
+          comments: { total: 2, resolved: 1 },
+        },
+      ],
+      [],
     ]);
 
-    mockExecutor
-      .onCommand(/gh pr list --search "review-requested:@me/)
-      .returns(reviewRequestedPRs);
-
-    mockExecutor.onCommand(/gh pr list --search "author:@me/).returns("[]");
-
-    // Mock comment count queries
-    mockExecutor.onCommand(/gh pr view 123 --json comments/).returns("2");
-    mockExecutor.onCommand(/gh pr view 123 --json reviewThreads/).returns("1");
-
     // Mock user cancelling the selection
     await expect(
       runCommand(["todo"], testRepo, { prompts: { escape: true } }),
     ).rejects.toThrow("process.exit(0)");
+
+    // Both searches, comment and thread counts come from a single request
+    expect(mockExecutor.getCallsMatching("gh ")).toEqual([
+      "gh auth status",
+      expect.stringContaining("gh api graphql"),
+    ]);
   });
 
   it("should categorize PRs correctly", async () => {
-    const myPRs = JSON.stringify([
-      {
-        number: 100,
-        title: "Draft PR",
-        url: "https://github.com/user/repo/pull/100",
-        headRefName: "draft-branch",
-        isDraft: true,
-        reviewDecision: null,
-        statusCheckRollup: null,
-      },
-      {
-        number: 101,
-        title: "PR with changes requested",
-        url: "https://github.com/user/repo/pull/101",
-        headRefName: "changes-requested",
-        isDraft: false,
-        reviewDecision: "CHANGES_REQUESTED",
-        statusCheckRollup: [],
-      },
-      {
-        number: 102,
-        title: "Approved PR",
-        url: "https://github.com/user/repo/pull/102",
-        headRefName: "approved-pr",
-        isDraft: false,
-        reviewDecision: "APPROVED",
-        statusCheckRollup: [],
-      },
-      {
-        number: 103,
-        title: "Awaiting review",
-        url: "https://github.com/user/repo/pull/103",
-        headRefName: "awaiting-review",
-        isDraft: false,
-        reviewDecision: null,
-        statusCheckRollup: [],
-      },
+    mockPRSearch(mockExecutor, [
+      [],
+      [
+        { number: 100, title: "Draft PR", headRefName: "draft-branch", isDraft: true },
+        {
+          number: 101,
+          title: "PR with changes requested",
+          headRefName: "changes-requested",
+          reviewDecision: "CHANGES_REQUESTED",
+        },
+        { number: 102, title: "Approved PR", headRefName: "approved-pr", reviewDecision: "APPROVED" },
+        { number: 103, title: "Awaiting review", headRefName: "awaiting-review" },
+      ],
     ]);
 
-    mockExecutor
-      .onCommand(/gh pr list --search "review-requested:@me/)
-      .returns("[]");
-
-    mockExecutor.onCommand(/gh pr list --search "author:@me/).returns(myPRs);
-
-    // Mock comment count queries for all PRs
-    for (let i = 100; i <= 103; i++) {
-      mockExecutor
-        .onCommand(new RegExp(`gh pr view ${i} --json comments`))
-        .returns("0");
-      mockExecutor
-        .onCommand(new RegExp(`gh pr view ${i} --json reviewThreads`))
-        .returns("0");
-    }
-
     await expect(
       runCommand(["todo"], testRepo, { prompts: { escape: true } }),
     ).rejects.toThrow("process.exit(0)");
@@ -120,7 +77,9 @@ describe("fgt todo", () => {
 
   it("should handle gh CLI errors gracefully", async () => {
     // Mock gh commands to fail - should catch and continue
-    mockExecutor.onCommand("gh pr list").returns("[]");
+    mockExecutor.onCommand("gh api graphql").returns(() => {
+      throw new Error("API rate limit exceeded");
+    });
 
     await expect(runCommand(["todo"], testRepo)).resolves.not.toThrow();
   });
@@ -136,7 +95,7 @@ describe("fgt todo", () => {
 
     testRepo.git("checkout main");
 
-    mockExecutor.onCommand("gh pr list").returns("[]");
+    mockPRSearch(mockExecutor, []);
 
     await expect(
       runCommand(["todo"], testRepo, { prompts: { escape: true } }),
@@ -144,119 +103,57 @@ describe("fgt todo", () => {
   });
 
   it("should handle PRs with comment counts", async () => {
-    const prWithComments = JSON.stringify([
-      {
-        number: 200,
-        title: "PR with unresolved comments",
-        url: "https://github.com/user/repo/pull/200",
-        headRefName: "comments-branch",
-        isDraft: false,
-        reviewDecision: null,
-        statusCheckRollup: [],
-      },
+    // 5 comments, 3 resolved
+    mockPRSearch(mockExecutor, [
+      [],
+      [
+        {
+          number: 200,
+          title: "PR with unresolved comments",
+          headRefName: "comments-branch",
+          comments: { total: 5, resolved: 3 },
+        },
+      ],
     ]);
 
-    mockExecutor
-      .onCommand(/gh pr list --search "review-requested:@me/)
-      .returns("[]");
-
-    mockExecutor
-      .onCommand(/gh pr list --search "author:@me/)
-      .returns(prWithComments);
-
-    // Mock comment counts: 5 total, 3 resolved
-    mockExecutor.onCommand(/gh pr view 200 --json comments/).returns("5");
-    mockExecutor.onCommand(/gh pr view 200 --json reviewThreads/).returns("3");
-
     await expect(
       runCommand(["todo"], testRepo, { prompts: { escape: true } }),
     ).rejects.toThrow("process.exit(0)");
   });
 
   it("should handle different CI states", async () => {
-    const prsWithDifferentCI = JSON.stringify([
-      {
-        number: 301,
-        title: "PR with passing CI",
-        url: "https://github.com/user/repo/pull/301",
-        headRefName: "passing-ci",
-        isDraft: false,
-        reviewDecision: null,
-        statusCheckRollup: [{ name: "build", status: "COMPLETED", conclusion: "SUCCESS" }],
-      },
-      {
-        number: 302,
-        title: "PR with failing CI",
-        url: "https://github.com/user/repo/pull/302",
-        headRefName: "failing-ci",
-        isDraft: false,
-        reviewDecision: null,
-        statusCheckRollup: [{ name: "build", status: "COMPLETED", conclusion: "FAILURE" }],
-      },
-      {
-        number: 303,
-        title: "PR with pending CI",
-        url: "https://github.com/user/repo/pull/303",
-        headRefName: "pending-ci",
-        isDraft: false,
-        reviewDecision: null,
-        statusCheckRollup: [{ name: "build", status: "IN_PROGRESS", conclusion: null }],
-      },
-      {
-        number: 304,
-        title: "PR without CI",
-        url: "https://github.com/user/repo/pull/304",
-        headRefName: "no-ci",
-        isDraft: false,
-        reviewDecision: null,
-        statusCheckRollup: null,
-      },
+    mockPRSearch(mockExecutor, [
+      [],
+      [
+        {
+          number: 301,
+          title: "PR with passing CI",
+          headRefName: "passing-ci",
+          checks: [{ name: "build", status: "COMPLETED", conclusion: "SUCCESS" }],
+        },
+        {
+          number: 302,
+          title: "PR with failing CI",
+          headRefName: "failing-ci",
+          checks: [{ name: "build", status: "COMPLETED", conclusion: "FAILURE" }],
+        },
+        {
+          number: 303,
+          title: "PR with pending CI",
+          headRefName: "pending-ci",
+          checks: [{ name: "build", status: "IN_PROGRESS", conclusion: null }],
+        },
+        { number: 304, title: "PR without CI", headRefName: "no-ci" },
+      ],
     ]);
 
-    mockExecutor
-      .onCommand(/gh pr list --search "review-requested:@me/)
-      .returns("[]");
-
-    mockExecutor
-      .onCommand(/gh pr list --search "author:@me/)
-      .returns(prsWithDifferentCI);
-
-    // Mock comment counts for all PRs
-    for (let i = 301; i <= 304; i++) {
-      mockExecutor
-        .onCommand(new RegExp(`gh pr view ${i} --json comments`))
-        .returns("0");
-      mockExecutor
-        .onCommand(new RegExp(`gh pr view ${i} --json reviewThreads`))
-        .returns("0");
-    }
-
     await expect(
       runCommand(["todo"], testRepo, { prompts: { escape: true } }),
     ).rejects.toThrow("process.exit(0)");
   });
 
   it("should display PRs with actions available", async () => {
-    const pr = JSON.stringify([
-      {
-        number: 500,
-        title: "Test PR",
-        url: "https://github.com/user/repo/pull/500",
-        headRefName: "test-branch",
-        isDraft: false,
-        reviewDecision: null,
-        statusCheckRollup: null,
-      },
-    ]);
-
-    mockExecutor
-      .onCommand(/gh pr list --search "review-requested:@me/)
-      .returns("[]");
-
-    mockExecutor.onCommand(/gh pr list --search "author:@me/).returns(pr);
-
-    mockExecutor.onCommand(/gh pr view 500 --json comments/).returns("0");
-    mockExecutor.onCommand(/gh pr view 500 --json reviewThreads/).returns("0");
+    mockPRSearch(mockExecutor, [[], [{ number: 500, title: "Test PR", headRefName: "test-branch" }]]);
 
     // User cancels the selection
     await expect(
@@ -274,11 +171,74 @@ describe("fgt todo", () => {
     testRepo.git('config flowgit.branch.local-feature.parent "main"');
     testRepo.git("checkout main");
 
-    mockExecutor.onCommand("gh pr list").returns("[]");
+    mockPRSearch(mockExecutor, []);
 
     // User cancels the selection
     await expect(
       runCommand(["todo"], testRepo, { prompts: { escape: true } }),
     ).rejects.toThrow("process.exit(0)");
   });
+
+  describe("JSON output", () => {
+    beforeEach(() => {
+      (console.log as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+      setJsonMode(false);
+    });
+
+    function printedJson(): any {
+      const calls = (console.log as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(1);
+      return JSON.parse(calls[0][0]);
+    }
+
+    it("prints PRs by category instead of showing the menu", async () => {
+      // Arrange
+      mockPRSearch(mockExecutor, [
+        [],
+        [
+          {
+            number: 101,
+            title: "Approved PR",
+            headRefName: "approved-pr",
+            reviewDecision: "APPROVED",
+            checks: [{ name: "ci", status: "COMPLETED", conclusion: "FAILURE" }],
+            comments: { total: 3, resolved: 1 },
+          },
+        ],
+      ]);
+      testRepo.git("checkout -b local-only");
+      testRepo.git('config flowgit.tracked "local-only"');
+
+      // Act
+      await runCommand(["todo", "--json"], testRepo, { prompts: { escape: true } });
+
+      // Assert
+      expect(printedJson()).toEqual({
+        version: 1,
+        categories: {
+          "needs-my-review": [],
+          "change-requests": [],
+          "awaiting-review": [],
+          approved: [
+            {
+              number: 101,
+              title: "Approved PR",
+              url: "https://github.com/user/repo/pull/101",
+              branch: "approved-pr",
+              isDraft: false,
+              state: "OPEN",
+              reviewDecision: "APPROVED",
+              checks: "failing",
+              comments: { total: 3, resolved: 1 },
+            },
+          ],
+          draft: [],
+        },
+        localBranches: ["local-only"],
+      });
+    });
+  });
 });
@@ -0,0 +1,80 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { MockExecutor } from "./helpers/mockExecutor";
+import { setExecutor, resetExecutor } from "../src/lib/executor";
+
+describe("fgt top", () => {
+  let testRepo: TestRepository;
+  let mockExecutor: MockExecutor;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    mockExecutor = new MockExecutor();
+    setExecutor(mockExecutor);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetExecutor();
+  });
+
+  /**
+   * main → branch-a → branch-b → branch-c
+   */
+  function createStack(): void {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+  }
+
+  it("navigates to the tip of the stack", async () => {
+    createStack();
+    testRepo.git("checkout branch-a");
+
+    // Act
+    await runCommand(["top"], testRepo);
+
+    // Assert
+    expect(testRepo.currentBranch()).toBe("branch-c");
+  });
+
+  it("prompts at forks", async () => {
+    createStack();
+    testRepo.git("checkout branch-a");
+    testRepo.git("checkout -b branch-d");
+    testRepo.writeFile("d.ts", "d");
+    testRepo.git("add d.ts");
+    testRepo.git('commit -m "D"');
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c,branch-d"');
+    testRepo.git('config flowgit.branch.branch-d.parent "branch-a"');
+    testRepo.git("checkout branch-a");
+
+    await runCommand(["top"], testRepo, { prompts: { branch: "branch-d" } });
+
+    expect(testRepo.currentBranch()).toBe("branch-d");
+  });
+
+  it("stays put at the top of the stack", async () => {
+    createStack();
+
+    await runCommand(["top"], testRepo);
+
+    expect(testRepo.currentBranch()).toBe("branch-c");
+  });
+});
@@ -136,4 +136,67 @@ describe("fgt up", () => {
       "process.exit(1)",
     );
   });
+
+  it("moves several levels with a step count", async () => {
+    // Arrange - main → a → b → c
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+    testRepo.git("checkout branch-a");
+
+    // Act
+    await runCommand(["up", "2"], testRepo);
+
+    // Assert
+    expect(testRepo.currentBranch()).toBe("branch-c");
+  });
+
+  it("stops at the top when the step count is too large", async () => {
+    testRepo.git("checkout -b branch-a");
+    testRepo.writeFile("a.ts", "a");
+    testRepo.git("add a.ts");
+    testRepo.git('commit -m "A"');
+
+    testRepo.git("checkout -b branch-b");
+    testRepo.writeFile("b.ts", "b");
+    testRepo.git("add b.ts");
+    testRepo.git('commit -m "B"');
+
+    testRepo.git("checkout -b branch-c");
+    testRepo.writeFile("c.ts", "c");
+    testRepo.git("add c.ts");
+    testRepo.git('commit -m "C"');
+
+    testRepo.git('config flowgit.tracked "branch-a,branch-b,branch-c"');
+    testRepo.git('config flowgit.branch.branch-a.parent "main"');
+    testRepo.git('config flowgit.branch.branch-b.parent "branch-a"');
+    testRepo.git('config flowgit.branch.branch-c.parent "branch-b"');
+    testRepo.git("checkout branch-a");
+
+    await runCommand(["up", "10"], testRepo);
+
+    expect(testRepo.currentBranch()).toBe("branch-c");
+  });
+
+  it("errors on an invalid step count", async () => {
+    await expect(runCommand(["up", "abc"], testRepo)).rejects.toThrow(
+      "process.exit(1)",
+    );
+  });
 });
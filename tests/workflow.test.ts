@@ -0,0 +1,149 @@
+import { TestRepository } from "./helpers/testRepo";
+import { runCommand } from "./helpers/runCommand";
+import { FakeForge } from "./helpers/fakeForge";
+import { setForge, resetForge } from "../src/lib/forge";
+import { setJsonMode } from "../src/lib/output";
+
+jest.mock("../src/lib/claude");
+
+/**
+ * End-to-end flows across commands, against a fake forge backed by a real remote
+ */
+describe("stacked PR workflow", () => {
+  let testRepo: TestRepository;
+  let forge: FakeForge;
+
+  beforeEach(() => {
+    testRepo = TestRepository.create();
+    forge = new FakeForge(testRepo.createRemote());
+    setForge(forge);
+  });
+
+  afterEach(() => {
+    testRepo.destroy();
+    resetForge();
+    setJsonMode(false);
+  });
+
+  async function createBranch(message: string, file: string): Promise<void> {
+    testRepo.writeFile(file, message);
+    await runCommand(["create", "--message", message, "--all"], testRepo);
+  }
+
+  function printedJson(): any {
+    const calls = (console.log as jest.Mock).mock.calls;
+    return JSON.parse(calls[calls.length - 1][0]);
+  }
+
+  it("creates, submits, squash-merges and cleans up a branch", async () => {
+    // Arrange
+    await createBranch("Add API", "api.ts");
+    await runCommand(["submit"], testRepo);
+    expect(forge.pr(1)).toMatchObject({ title: "Add API", headRefName: "add-api", baseRefName: "main" });
+
+    // Act - squash-merge on the forge, then sync
+    forge.merge(1, { method: "squash", deleteBranch: true });
+    await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+    // Assert
+    expect(testRepo.branchExists("add-api")).toBe(false);
+    expect(testRepo.trackedBranches()).toEqual([]);
+    expect(testRepo.git("log -1 --format=%s main")).toBe("Add API (#1)");
+  });
+
+  it("retargets the next PR in the stack when its parent is merged", async () => {
+    // Arrange - main → add-api → add-ui, both submitted
+    await createBranch("Add API", "api.ts");
+    await createBranch("Add UI", "ui.ts");
+    await runCommand(["submit"], testRepo);
+    expect(forge.pr(2).baseRefName).toBe("add-api");
+    expect(forge.pr(2).body).toContain("- **#2 `add-ui`** 👈\n- #1 `add-api`\n- `main`");
+
+    // Act
+    forge.merge(1);
+    await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+    // Assert
+    expect(testRepo.branchExists("add-api")).toBe(false);
+    expect(testRepo.parentBranch("add-ui")).toBe("main");
+    expect(forge.pr(2).baseRefName).toBe("main");
+  });
+
+  it("restacks the rest of the stack after a squash merge so its PR only shows its own commits", async () => {
+    // Arrange
+    await createBranch("Add API", "api.ts");
+    await createBranch("Add UI", "ui.ts");
+    await runCommand(["submit"], testRepo);
+
+    // Act
+    forge.merge(1, { method: "squash", deleteBranch: true });
+    await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+    // Assert - origin/add-ui sits on the squashed commit, without the old add-api commit
+    expect(testRepo.git("log --format=%s origin/main..origin/add-ui")).toBe("Add UI");
+    expect(testRepo.git("rev-parse origin/add-ui")).toBe(testRepo.git("rev-parse add-ui"));
+    expect(forge.pr(2).baseRefName).toBe("main");
+  });
+
+  it("references retargeted PRs with the forge's prefix", async () => {
+    // Arrange
+    forge.referencePrefix = "!";
+    await createBranch("Add API", "api.ts");
+    await createBranch("Add UI", "ui.ts");
+    await runCommand(["submit"], testRepo);
+    forge.merge(1);
+    (console.log as jest.Mock).mockClear();
+
+    // Act
+    await runCommand(["sync"], testRepo, { prompts: { confirmed: true } });
+
+    // Assert
+    expect(console.log).toHaveBeenCalledWith("  - !2 add-ui: add-api → main");
+  });
+
+  it("keeps branches whose PR was closed unless deletion is confirmed", async () => {
+    await createBranch("Add API", "api.ts");
+    await runCommand(["submit"], testRepo);
+    forge.close(1);
+
+    await runCommand(["sync", "--json"], testRepo);
+
+    expect(printedJson().closed).toEqual([{ branch: "add-api", deleted: false }]);
+    expect(testRepo.branchExists("add-api")).toBe(true);
+  });
+
+  it("marks a reviewed draft ready on the next submit", async () => {
+    // Arrange
+    await createBranch("Add API", "api.ts");
+    await runCommand(["submit", "--draft"], testRepo);
+    expect(forge.pr(1).isDraft).toBe(true);
+    forge.review(1, "APPROVED");
+
+    // Act
+    await runCommand(["submit", "--ready"], testRepo);
+
+    // Assert - the existing PR is updated rather than a second one opened
+    expect(forge.prs).toHaveLength(1);
+    expect(forge.pr(1).isDraft).toBe(false);
+  });
+
+  it("sorts PRs by review state in todo", async () => {
+    // Arrange
+    forge.addPR({ headRefName: "teammate-fix", author: "alice", reviewers: ["me"] });
+    forge.addPR({ headRefName: "approved", reviewDecision: "APPROVED" });
+    forge.addPR({ headRefName: "rejected", reviewDecision: "CHANGES_REQUESTED" });
+    forge.addPR({ headRefName: "wip", isDraft: true });
+    forge.addPR({ headRefName: "shipped", state: "MERGED", merged: true });
+
+    // Act
+    await runCommand(["todo", "--json"], testRepo);
+
+    // Assert
+    const branches = (key: string) => printedJson().categories[key].map((pr: any) => pr.branch);
+    expect(branches("needs-my-review")).toEqual(["teammate-fix"]);
+    expect(branches("approved")).toEqual(["approved"]);
+    expect(branches("change-requests")).toEqual(["rejected"]);
+    expect(branches("draft")).toEqual(["wip"]);
+    expect(branches("awaiting-review")).toEqual([]);
+  });
+});